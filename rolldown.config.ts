@@ -54,6 +54,8 @@ export default defineConfig([
 
     external: ["obsidian", "electron"],
     platform: "neutral",
+    // The WASM image codecs are inlined, since the plugin is loaded from a single file
+    moduleTypes: { ".wasm": "binary" },
     tsconfig: "tsconfig.json",
 
     plugins: [
@@ -0,0 +1,44 @@
+import type { Formatter } from "./formatter";
+import type { Step } from "./pipeline";
+import type { TFile } from "obsidian";
+import type { Options } from "prettier";
+
+export interface FormatTextOptions {
+  /**
+   * Resolve options as if the text were the content of this file, defaults to `untitled.md`.
+   */
+  path?: string;
+  /**
+   * Prettier options, which take precedence over all other options.
+   */
+  options?: Options;
+}
+
+/**
+ * The API exposed to other plugins, available at `app.plugins.plugins["prettier"].api`.
+ */
+export interface PrettierApi {
+  /**
+   * Format the text and return the result, images are not uploaded.
+   */
+  formatText: (text: string, options?: FormatTextOptions) => Promise<string>;
+  /**
+   * Format the file in the vault, returns whether the file has been changed.
+   */
+  formatFile: (file: TFile) => Promise<boolean>;
+  /**
+   * Whether the file would be formatted, according to the frontmatter and ignore patterns.
+   */
+  shouldFormat: (file: TFile) => boolean;
+  /**
+   * Register a post-processing step, returns a function to unregister it.
+   */
+  registerStep: (step: Step) => () => boolean;
+}
+
+export const createApi = (formatter: Formatter): PrettierApi => ({
+  formatText: (text, { path, options } = {}) => formatter.formatText(text, path, options),
+  formatFile: file => formatter.formatFile(file),
+  shouldFormat: file => formatter.shouldUsePrettier(file),
+  registerStep: step => formatter.pipeline.register(step),
+});
@@ -0,0 +1,139 @@
+import { fmt } from "./i18n";
+import { FileListModal } from "./modals/file-list";
+import { logger, showNotice, showProgressNotice } from "./utils/common";
+import { collectMarkdownFiles, isMarkdownFile } from "./utils/file";
+
+import type { Formatter } from "./formatter";
+import type PrettierPlugin from "./main";
+import type { App, TAbstractFile, TFile } from "obsidian";
+
+export interface BatchResult {
+  total: number;
+  processed: number;
+  changed: TFile[];
+  skipped: TFile[];
+  failed: TFile[];
+  cancelled: boolean;
+}
+
+export class BatchFormatter {
+  private app: App;
+  private formatter: Formatter;
+  private running = false;
+
+  constructor(plugin: PrettierPlugin, formatter: Formatter) {
+    this.app = plugin.app;
+    this.formatter = formatter;
+  }
+
+  async formatVault(dryRun = false) {
+    const files = this.app.vault.getFiles().filter(isMarkdownFile);
+
+    const result = await this.run(files, dryRun);
+    if (!result) return;
+
+    this.report(result, dryRun);
+  }
+
+  /**
+   * Format the given files, folders are expanded recursively.
+   */
+  async formatFiles(items: TAbstractFile[]) {
+    const result = await this.run(collectMarkdownFiles(items), false);
+    if (!result) return;
+
+    this.report(result, false);
+  }
+
+  private async run(files: TFile[], dryRun: boolean) {
+    if (this.running) {
+      showNotice(fmt("notice:batch-running"));
+
+      return null;
+    }
+
+    this.running = true;
+
+    const result: BatchResult = {
+      total: files.length,
+      processed: 0,
+      changed: [],
+      skipped: [],
+      failed: [],
+      cancelled: false,
+    };
+
+    const notice = showProgressNotice(() => {
+      result.cancelled = true;
+    });
+    const template = dryRun ? "notice:batch-dry-run-progress" : "notice:batch-progress";
+
+    try {
+      // Links to changed headings are collected from all files and confirmed once.
+      await this.formatter.linkUpdater.batch(async () => {
+        for (const file of files) {
+          if (result.cancelled) break;
+
+          notice.setMessage(
+            fmt(template, { current: String(result.processed + 1), total: String(files.length) }),
+          );
+
+          try {
+            if (!this.formatter.shouldUsePrettier(file)) {
+              result.skipped.push(file);
+            } else if (await this.formatter.formatFile(file, dryRun)) {
+              result.changed.push(file);
+            }
+          } catch (error) {
+            logger(`Error formatting file: ${file.path}`, error);
+            result.failed.push(file);
+          }
+
+          result.processed++;
+
+          // Give the UI a chance to repaint and to handle the cancel button.
+          await sleep(0);
+        }
+      });
+    } finally {
+      notice.hide();
+      this.running = false;
+    }
+
+    return result;
+  }
+
+  private report(result: BatchResult, dryRun: boolean) {
+    const { total, processed, changed, skipped, failed, cancelled } = result;
+
+    if (dryRun) {
+      const count = String(changed.length);
+      // A cancelled dry run only lists the notes checked so far.
+      const title = cancelled
+        ? fmt("modal:dry-run-cancelled-title", {
+            count,
+            processed: String(processed),
+            total: String(total),
+          })
+        : fmt("modal:dry-run-title", { count });
+
+      new FileListModal(this.app, title, changed, fmt("modal:dry-run-empty")).open();
+
+      return;
+    }
+
+    const placeholders = {
+      total: String(total),
+      processed: String(processed),
+      changed: String(changed.length),
+      skipped: String(skipped.length),
+      failed: String(failed.length),
+    };
+
+    showNotice(
+      cancelled
+        ? fmt("notice:batch-cancelled", placeholders)
+        : fmt("notice:batch-result", placeholders),
+    );
+  }
+}
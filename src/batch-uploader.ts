@@ -0,0 +1,186 @@
+import { fmt } from "./i18n";
+import { UploadConfirmModal } from "./modals/upload-confirm";
+import { UploadReportModal } from "./modals/upload-report";
+import { logger, showNotice, showProgressNotice } from "./utils/common";
+import { collectMarkdownFiles, isMarkdownFile } from "./utils/file";
+import { MagicString } from "./utils/string";
+
+import type { Formatter } from "./formatter";
+import type { ImageUploader, UploadResult } from "./image-uploader";
+import type PrettierPlugin from "./main";
+import type { UploadEntry } from "./modals/upload-confirm";
+import type { ImageMatch } from "./utils/markdown";
+import type { App, Editor, TAbstractFile, TFile } from "obsidian";
+
+const getUrls = (images: ImageMatch[]) => [...new Set(images.map(({ url }) => url))];
+
+/**
+ * Upload images on demand, separately from formatting. The images to upload are always listed in
+ * a confirmation modal first.
+ */
+export class BatchUploader {
+  private app: App;
+  private formatter: Formatter;
+  private imageUploader: ImageUploader;
+  private running = false;
+
+  constructor(plugin: PrettierPlugin, formatter: Formatter) {
+    this.app = plugin.app;
+    this.formatter = formatter;
+    this.imageUploader = formatter.imageUploader;
+  }
+
+  async uploadEditor(editor: Editor, file: TFile | null) {
+    if (!file || !this.checkConfigured()) return;
+
+    const content = new MagicString(editor.getValue());
+    const images = await this.imageUploader.findImages(content.original, file);
+    if (images.length === 0) {
+      showNotice(fmt("notice:upload-no-images"));
+
+      return;
+    }
+
+    new UploadConfirmModal(this.app, [{ file, urls: getUrls(images) }], async () => {
+      if (editor.getValue() !== content.original) {
+        showNotice(fmt("notice:upload-outdated"));
+
+        return;
+      }
+
+      const offset = content.positionToOffset(editor.getCursor());
+      const result = await this.imageUploader.upload(content, file, images, offset);
+
+      if (content.isModified && !this.formatter.applyContent(editor, content, result.offset)) {
+        showNotice(fmt("notice:upload-outdated"));
+
+        return;
+      }
+
+      this.showReport(result.results);
+    }).open();
+  }
+
+  async uploadVault() {
+    await this.uploadFiles(this.app.vault.getFiles().filter(isMarkdownFile));
+  }
+
+  /**
+   * Upload images in the given files, folders are expanded recursively.
+   */
+  async uploadFiles(items: TAbstractFile[]) {
+    if (this.running) {
+      showNotice(fmt("notice:batch-running"));
+
+      return;
+    }
+
+    if (!this.checkConfigured()) return;
+
+    const entries: UploadEntry[] = [];
+    for (const file of collectMarkdownFiles(items)) {
+      const content = await this.app.vault.cachedRead(file);
+      const images = await this.imageUploader.findImages(content, file);
+      if (images.length > 0) {
+        entries.push({ file, urls: getUrls(images) });
+      }
+    }
+
+    if (entries.length === 0) {
+      showNotice(fmt("notice:upload-no-images"));
+
+      return;
+    }
+
+    new UploadConfirmModal(this.app, entries, () =>
+      this.run(entries.map(({ file }) => file)),
+    ).open();
+  }
+
+  /**
+   * Show the status of each image, failed images can be uploaded again from the report.
+   */
+  showReport(results: UploadResult[], cancelled?: { processed: number; total: number }) {
+    const failed = results.filter(({ status }) => status === "failed");
+    const onRetry = failed.length > 0 ? () => this.retry(failed) : null;
+
+    new UploadReportModal(this.app, results, onRetry, cancelled).open();
+  }
+
+  private async retry(results: UploadResult[]) {
+    const urls = new Map<TFile, Set<string>>();
+    for (const { file, url } of results) {
+      urls.set(file, (urls.get(file) ?? new Set()).add(url));
+    }
+
+    await this.run([...urls.keys()], urls);
+  }
+
+  private checkConfigured() {
+    if (this.imageUploader.isConfigured()) return true;
+
+    showNotice(fmt("notice:upload-not-configured"));
+
+    return false;
+  }
+
+  /**
+   * Upload images in the files, or only the given URLs of each file when retrying.
+   */
+  private async run(files: TFile[], urls?: Map<TFile, Set<string>>) {
+    if (this.running) {
+      showNotice(fmt("notice:batch-running"));
+
+      return;
+    }
+
+    this.running = true;
+
+    let cancelled = false;
+    let processed = 0;
+    const results: UploadResult[] = [];
+
+    const notice = showProgressNotice(() => {
+      cancelled = true;
+    });
+
+    try {
+      for (const file of files) {
+        if (cancelled) break;
+
+        notice.setMessage(
+          fmt("notice:upload-progress", {
+            current: String(processed + 1),
+            total: String(files.length),
+          }),
+        );
+
+        try {
+          // The note may have been changed since the images were listed.
+          const content = new MagicString(await this.app.vault.read(file));
+          const found = await this.imageUploader.findImages(content.original, file);
+          const images = urls ? found.filter(({ url }) => urls.get(file)?.has(url)) : found;
+          const result = await this.imageUploader.upload(content, file, images);
+
+          results.push(...result.results);
+
+          if (content.isModified) {
+            await this.formatter.writeFile(file, content.current);
+          }
+        } catch (error) {
+          logger(`Error uploading images in file: ${file.path}`, error);
+        }
+
+        processed++;
+
+        // Give the UI a chance to repaint and to handle the cancel button.
+        await sleep(0);
+      }
+    } finally {
+      notice.hide();
+      this.running = false;
+    }
+
+    this.showReport(results, cancelled ? { processed, total: files.length } : undefined);
+  }
+}
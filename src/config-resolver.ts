@@ -0,0 +1,186 @@
+import { isDefined, isPlainObject, isString, omit } from "@goodbyenjn/utils/remeda";
+import createIgnore from "ignore";
+import { parseYaml } from "obsidian";
+
+import { logger } from "./utils/common";
+
+import type PrettierPlugin from "./main";
+import type { FormatOverride } from "./model";
+import type { Ignore } from "ignore";
+import type { App } from "obsidian";
+import type { Options } from "prettier";
+
+// In the same order as Prettier searches for them, the first one found in a folder wins.
+const CONFIG_FILENAMES = [".prettierrc", ".prettierrc.json", ".prettierrc.yaml", ".prettierrc.yml"];
+const IGNORE_FILENAME = ".prettierignore";
+// The plugins and parser are provided by the plugin, and the others are set when formatting.
+const UNSUPPORTED_OPTIONS = [
+  "$schema",
+  "plugins",
+  "parser",
+  "filepath",
+  "cursorOffset",
+  "rangeStart",
+  "rangeEnd",
+] as const;
+
+interface Config {
+  options: Options;
+  overrides: FormatOverride[];
+}
+
+const getDirname = (path: string) => {
+  const index = path.lastIndexOf("/");
+
+  return index === -1 ? "" : path.slice(0, index);
+};
+
+const getBasename = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+const getRelativePath = (dir: string, path: string) => (dir ? path.slice(dir.length + 1) : path);
+
+const isPatterns = (value: unknown): value is string | string[] =>
+  isString(value) || (Array.isArray(value) && value.every(isString));
+
+const toOptions = (options: Record<string, unknown>) =>
+  omit(options, UNSUPPORTED_OPTIONS) as Options;
+
+const toOverride = (override: unknown): FormatOverride | undefined => {
+  if (!isPlainObject(override)) return;
+
+  const { files, excludeFiles, options } = override;
+  if (!isPatterns(files) || !isPlainObject(options)) return;
+  if (excludeFiles !== undefined && !isPatterns(excludeFiles)) return;
+
+  return { files, excludeFiles, options: toOptions(options) };
+};
+
+/**
+ * Resolve `.prettierrc` and `.prettierignore` files in the vault. Like the Prettier CLI, only the
+ * nearest file in the ancestor folders of a note is used, and patterns are relative to the folder
+ * containing the file.
+ */
+export class ConfigResolver {
+  private app: App;
+  private configs: Map<string, Config> = new Map();
+  private ignores: Map<string, Ignore> = new Map();
+  private ignoreCache: Map<string, Ignore> = new Map();
+
+  constructor(plugin: PrettierPlugin) {
+    this.app = plugin.app;
+  }
+
+  async load() {
+    this.configs.clear();
+    this.ignores.clear();
+
+    const folders = this.app.vault.getAllFolders(true);
+    await Promise.all(folders.map(folder => this.loadFolder(folder.isRoot() ? "" : folder.path)));
+  }
+
+  isConfigFile(path: string) {
+    const basename = getBasename(path);
+
+    return CONFIG_FILENAMES.includes(basename) || basename === IGNORE_FILENAME;
+  }
+
+  /**
+   * Reload the config files in the folder containing the changed file.
+   */
+  async reload(path: string) {
+    if (!this.isConfigFile(path)) return;
+
+    await this.loadFolder(getDirname(path));
+  }
+
+  getOptions(path: string): Options {
+    const dir = this.findNearest(this.configs, path);
+    if (dir === null) return {};
+
+    const { options, overrides } = this.configs.get(dir)!;
+    const relativePath = getRelativePath(dir, path);
+    const toPatterns = (files: string | string[] = []) => [files].flat().join("\n");
+
+    return overrides
+      .filter(({ files, excludeFiles }) => {
+        const isIncluded = this.createIgnore(toPatterns(files)).ignores(relativePath);
+        const isExcluded = this.createIgnore(toPatterns(excludeFiles)).ignores(relativePath);
+
+        return isIncluded && !isExcluded;
+      })
+      .reduce<Options>((result, override) => ({ ...result, ...override.options }), options);
+  }
+
+  isIgnored(path: string) {
+    const dir = this.findNearest(this.ignores, path);
+    if (dir === null) return false;
+
+    return this.ignores.get(dir)!.ignores(getRelativePath(dir, path));
+  }
+
+  private async loadFolder(dir: string) {
+    const { adapter } = this.app.vault;
+
+    this.configs.delete(dir);
+    this.ignores.delete(dir);
+
+    try {
+      const { files } = await adapter.list(dir || "/");
+      const basenames = files.map(getBasename);
+
+      const configFilename = CONFIG_FILENAMES.find(filename => basenames.includes(filename));
+      if (configFilename) {
+        const config = this.parseConfig(await adapter.read(this.join(dir, configFilename)));
+        this.configs.set(dir, config);
+      }
+
+      if (basenames.includes(IGNORE_FILENAME)) {
+        const patterns = await adapter.read(this.join(dir, IGNORE_FILENAME));
+        this.ignores.set(dir, this.createIgnore(patterns));
+      }
+    } catch (error) {
+      logger(`Error loading Prettier config files in folder: ${dir || "/"}`, error);
+    }
+  }
+
+  private parseConfig(text: string): Config {
+    // YAML is a superset of JSON, so both formats can be parsed in the same way.
+    const config: unknown = parseYaml(text);
+    if (!isPlainObject(config)) {
+      return { options: {}, overrides: [] };
+    }
+
+    const { overrides, ...options } = config;
+
+    return {
+      options: toOptions(options),
+      overrides: Array.isArray(overrides) ? overrides.map(toOverride).filter(isDefined) : [],
+    };
+  }
+
+  private findNearest(map: Map<string, unknown>, path: string) {
+    let dir = getDirname(path);
+    while (!map.has(dir)) {
+      if (dir === "") return null;
+
+      dir = getDirname(dir);
+    }
+
+    return dir;
+  }
+
+  private join(dir: string, filename: string) {
+    return dir ? `${dir}/${filename}` : filename;
+  }
+
+  private createIgnore(patterns: string) {
+    if (this.ignoreCache.has(patterns)) {
+      return this.ignoreCache.get(patterns)!;
+    }
+
+    const ignore = createIgnore({ allowRelativePaths: true }).add(patterns);
+    this.ignoreCache.set(patterns, ignore);
+
+    return ignore;
+  }
+}
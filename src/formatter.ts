@@ -1,3 +1,4 @@
+import { isPlainObject } from "@goodbyenjn/utils/remeda";
 import createIgnore from "ignore";
 import pluginBabel from "prettier/plugins/babel";
 import pluginEstree from "prettier/plugins/estree";
@@ -8,17 +9,34 @@ import pluginTypescript from "prettier/plugins/typescript";
 import pluginYaml from "prettier/plugins/yaml";
 import prettier from "prettier/standalone";
 
+import { showNotice } from "./utils/common";
+import { applyHunks, diffLines } from "./utils/diff";
+import { createHeadingRenames, rewriteLink } from "./utils/heading-links";
+import { MarkdownDocument, parseLink } from "./utils/markdown";
+import { numberHeadings, removeNumbering } from "./utils/numbering";
 import { MagicString } from "./utils/string";
+import { TOC_END_MARKER, findTocRange, renderToc } from "./utils/toc";
+import { ConfigResolver } from "./config-resolver";
+import { HeadingLinkUpdater } from "./heading-link-updater";
+import { fmt } from "./i18n";
 import { ImageUploader } from "./image-uploader";
+import { NumberingRecords } from "./numbering-records";
+import { Pipeline } from "./pipeline";
 
 import type PrettierPlugin from "./main";
 import type { Settings } from "./model";
+import type { Hunk } from "./utils/diff";
+import type { HeadingNumbering } from "./utils/numbering";
 import type { Ignore } from "ignore";
-import type { App, Editor, TFile } from "obsidian";
+import type { App, Editor, EditorChange, EditorTransaction, TFile } from "obsidian";
 import type { Options } from "prettier";
 
 const USE_PRETTIER_KEY = "prettier";
 const USE_FAST_MODE_KEY = "prettier-fast-mode";
+const FORMAT_OPTIONS_KEY = "prettier-options";
+
+// Only the path is needed to resolve options, so files that do not exist in the vault can be used.
+type FileLike = Pick<TFile, "path" | "extension">;
 
 const REGEXP_UNORDERED_LIST_ITEMS_WITH_EXTRA_SPACES = /^[^\S\r\n]*[-*+][^\S\r\n]([^\S\r\n]+)/;
 const REGEXP_EMPTY_LIST_ITEMS_WITHOUT_TRAILING_SPACES =
@@ -28,12 +46,30 @@ export class Formatter {
   private app: App;
   private settings: Settings;
   private ignoreCache: Map<string, Ignore> = new Map();
-  private imageUploader: ImageUploader;
+  // Contents written by `formatFile`, used to tell our own modifications apart from others.
+  private writtenContents: Map<string, string> = new Map();
+  // Documents parsed from the contents being formatted, shared by the steps as long as the text is
+  // only changed through them.
+  private documents: WeakMap<MagicString, MarkdownDocument> = new WeakMap();
+  // Documents parsed from the contents before formatting, to find the changed headings.
+  private originalDocuments: WeakMap<MagicString, MarkdownDocument> = new WeakMap();
+
+  configResolver: ConfigResolver;
+  imageUploader: ImageUploader;
+  numberingRecords: NumberingRecords;
+  linkUpdater: HeadingLinkUpdater;
+  pipeline: Pipeline;
 
   constructor(plugin: PrettierPlugin) {
     this.app = plugin.app;
     this.settings = plugin.settings;
     this.imageUploader = new ImageUploader(plugin);
+    this.numberingRecords = new NumberingRecords(plugin);
+    this.linkUpdater = new HeadingLinkUpdater(plugin);
+    this.configResolver = new ConfigResolver(plugin);
+    this.pipeline = new Pipeline(plugin.settings);
+
+    this.registerBuiltinSteps();
   }
 
   async formatOnSave(editor: Editor, file: TFile | null) {
@@ -42,99 +78,193 @@ export class Formatter {
     await this.formatContent(editor, file);
   }
 
+  /**
+   * Format the editor content after typing has stopped. Always keeps the cursor position, and skips
+   * image uploads. The result is discarded if the content is changed while formatting.
+   */
+  async formatOnIdle(editor: Editor, file: TFile | null) {
+    if (!file || !this.settings.formatOnIdle || !this.shouldUsePrettier(file)) return;
+    if (editor.somethingSelected() || editor.cm?.composing) return;
+
+    const { content, offset } = await this.transformContent(editor, file, {
+      uploadImages: false,
+      fastMode: false,
+    });
+
+    if (!content.isModified || editor.cm?.composing) return;
+
+    if (this.applyContent(editor, content, offset)) {
+      await this.updateLinksInOtherNotes(file, content, true);
+    }
+  }
+
+  /**
+   * Format the file after it has been modified by autosave, sync or other plugins. Modifications
+   * made by the plugin itself are skipped, otherwise non-idempotent formatting would loop forever.
+   */
+  async formatOnModify(file: TFile) {
+    if (!this.settings.formatOnModify) return;
+
+    const written = this.writtenContents.get(file.path);
+    this.writtenContents.delete(file.path);
+    if (written === (await this.app.vault.cachedRead(file))) return;
+
+    await this.formatFile(file, false, true);
+  }
+
   async formatOnFileChange(file: TFile) {
     if (!this.settings.formatOnFileChange) return;
 
-    await this.formatFile(file);
+    await this.formatFile(file, false, true);
   }
 
-  async formatFile(file: TFile) {
-    if (!this.shouldUsePrettier(file)) return;
+  /**
+   * Format the file on disk. Returns whether the content has been (or, in dry-run mode, would be)
+   * changed. Automatic formats do not ask to update links in other notes right away.
+   */
+  async formatFile(file: TFile, dryRun = false, isAutomatic = false) {
+    if (!this.shouldUsePrettier(file)) return false;
 
     const content = new MagicString(await this.app.vault.read(file));
     const options = this.getPrettierOptions(file);
 
     let offset = -1;
-    offset = await this.imageUploader.uploadImages(content, file, offset);
+    if (!dryRun && this.settings.uploadImagesOnFormat) {
+      offset = await this.imageUploader.uploadImages(content, file, offset);
+    }
 
     content.mutate(await prettier.format(content.current, options));
 
-    if (this.settings.removeExtraSpaces) {
-      offset = this.removeExtraSpaces(content, offset);
-    }
-    if (this.settings.addTrailingSpaces) {
-      offset = this.addTrailingSpaces(content, offset);
-    }
-    if (this.settings.headerStartLevel > 1) {
-      offset = this.adjustHeaderLevels(content, offset);
+    offset = await this.pipeline.run(content, offset, {
+      file,
+      scope: "document",
+      settings: this.settings,
+      dryRun,
+    });
+
+    if (!content.isModified) return false;
+
+    if (!dryRun) {
+      await this.writeFile(file, content.current);
+      await this.updateLinksInOtherNotes(file, content, isAutomatic);
     }
-    // Re-calculate minLevel after adjusting headers, because levels might have changed
-    if (this.settings.autoNumbering) {
-      offset = this.addHeaderNumbering(content, offset);
+
+    return true;
+  }
+
+  /**
+   * Write the content to the file, which will not be formatted again on modify.
+   */
+  async writeFile(file: TFile, content: string) {
+    if (this.settings.formatOnModify) {
+      this.writtenContents.set(file.path, content);
     }
 
-    if (!content.isModified) return;
+    await this.app.vault.modify(file, content);
+  }
+
+  /**
+   * Format the given text as if it were the content of the file at the given path. The text is
+   * always formatted regardless of ignore patterns, images are not uploaded, and the file is not
+   * changed, so the pipeline runs as a dry run.
+   */
+  async formatText(text: string, path = "untitled.md", options: Options = {}) {
+    const file = this.app.vault.getFileByPath(path);
+    const extension = path.slice(path.lastIndexOf(".") + 1);
+
+    const content = new MagicString(text);
+    content.mutate(
+      await prettier.format(content.current, {
+        ...this.getPrettierOptions(file || { path, extension }),
+        ...options,
+      }),
+    );
+
+    await this.pipeline.run(content, -1, {
+      file,
+      scope: "document",
+      settings: this.settings,
+      dryRun: true,
+    });
 
-    await this.app.vault.modify(file, content.current);
+    return content.current;
   }
 
   async formatContent(editor: Editor, file: TFile | null) {
     if (!file || !this.shouldUsePrettier(file)) return;
 
-    const { left, top } = editor.getScrollInfo();
+    const { content, offset } = await this.transformContent(editor, file);
 
-    const content = new MagicString(editor.getValue());
-    const options = this.getPrettierOptions(file);
+    if (!content.isModified) return;
 
-    let offset = -1;
-    if (!this.shouldUseFastMode(file)) {
-      offset = content.positionToOffset(editor.getCursor());
+    if (this.applyContent(editor, content, offset)) {
+      await this.updateLinksInOtherNotes(file, content);
     }
+  }
 
-    offset = await this.imageUploader.uploadImages(content, file, offset);
+  /**
+   * Format the editor content without writing it back. Images are not uploaded, since the result
+   * might be discarded.
+   */
+  async previewContent(editor: Editor, file: TFile | null) {
+    if (!file || !this.shouldUsePrettier(file)) return null;
 
-    if (this.shouldUseFastMode(file)) {
-      content.mutate(await prettier.format(content.current, options));
-    } else {
-      const result = await prettier.formatWithCursor(content.current, {
-        cursorOffset: offset,
-        ...options,
-      });
-      content.mutate(result.formatted);
-      offset = result.cursorOffset;
-    }
+    const { content } = await this.transformContent(editor, file, { uploadImages: false });
 
-    if (this.settings.removeExtraSpaces) {
-      offset = this.removeExtraSpaces(content, offset);
-    }
-    if (this.settings.addTrailingSpaces) {
-      offset = this.addTrailingSpaces(content, offset);
-    }
-    if (this.settings.headerStartLevel > 1) {
-      offset = this.adjustHeaderLevels(content, offset);
-    }
-    // Re-calculate minLevel after adjusting headers, because levels might have changed
-    if (this.settings.autoNumbering) {
-      offset = this.addHeaderNumbering(content, offset);
-    }
+    return content;
+  }
 
-    if (!content.isModified) return;
+  /**
+   * Apply the accepted hunks of a previewed content to the editor.
+   */
+  async applyPreview(editor: Editor, file: TFile, content: MagicString, hunks: Hunk[]) {
+    const result = new MagicString(content.original);
+    const offset = applyHunks(result, hunks, result.positionToOffset(editor.getCursor()));
 
-    editor.setValue(content.current);
-    editor.scrollTo(left, top);
+    if (!result.isModified) return;
 
-    if (offset !== -1) {
-      editor.setCursor(content.offsetToPosition(offset));
+    if (this.applyContent(editor, result, offset)) {
+      await this.updateLinksInOtherNotes(file, result);
     }
   }
 
+  /**
+   * Write the changed lines back to the editor in a single transaction, so that folds, selections
+   * and the undo history of the untouched parts are preserved. Returns false if the editor content
+   * has been changed in the meantime.
+   */
+  applyContent(editor: Editor, content: MagicString, offset = -1) {
+    if (editor.getValue() !== content.original) return false;
+
+    const original = new MagicString(content.original);
+    const changes = diffLines(content.original, content.current).map<EditorChange>(hunk => ({
+      from: original.offsetToPosition(hunk.start),
+      to: original.offsetToPosition(hunk.end),
+      text: hunk.added.join(""),
+    }));
+
+    const transaction: EditorTransaction = { changes };
+
+    // Multiple cursors and selections are mapped through the changes by the editor itself.
+    const isSingleCursor = editor.listSelections().length === 1 && !editor.somethingSelected();
+    if (offset !== -1 && isSingleCursor) {
+      transaction.selection = { from: content.offsetToPosition(offset) };
+    }
+
+    editor.transaction(transaction);
+
+    return true;
+  }
+
   async formatSelection(editor: Editor, file: TFile | null) {
     if (!file || !this.shouldUsePrettier(file)) return;
 
     const content = new MagicString(editor.getSelection());
     const options = this.getPrettierOptions(file);
 
-    await this.imageUploader.uploadImages(content, file);
+    if (this.settings.uploadImagesOnFormat) {
+      await this.imageUploader.uploadImages(content, file);
+    }
 
     content.mutate(await prettier.format(content.current, options));
 
@@ -145,237 +275,255 @@ export class Formatter {
     } else if (!isOriginalHasNewLine && isModifiedHasNewLine) {
       content.delete(-1);
     }
-    if (this.settings.removeExtraSpaces) {
-      this.removeExtraSpaces(content);
-    }
-    if (this.settings.addTrailingSpaces) {
-      this.addTrailingSpaces(content);
-    }
+
+    await this.pipeline.run(content, -1, {
+      file,
+      scope: "selection",
+      settings: this.settings,
+    });
 
     if (!content.isModified) return;
 
     editor.replaceSelection(content.current);
   }
 
-  removeExtraSpaces(content: MagicString, offset = -1) {
+  async removeExtraSpaces(content: MagicString, offset = -1) {
+    const document = await this.getDocument(content);
     const matches = content.match<1>(REGEXP_UNORDERED_LIST_ITEMS_WITH_EXTRA_SPACES);
 
     let index = offset;
     for (const [remove] of matches.toReversed()) {
-      index = content.delete(remove.start, remove.end, index);
+      if (document.isLiteral(remove.start)) continue;
+
+      index = document.update(content, remove.start, remove.end, "", index);
     }
 
     return index;
   }
 
-  addTrailingSpaces(content: MagicString, offset = -1) {
+  async addTrailingSpaces(content: MagicString, offset = -1) {
+    const document = await this.getDocument(content);
     const matches = content.match<1>(REGEXP_EMPTY_LIST_ITEMS_WITHOUT_TRAILING_SPACES);
 
     let index = offset;
     for (const [preserve] of matches.toReversed()) {
-      index = content.insert(preserve.end, " ", index);
+      if (document.isLiteral(preserve.start)) continue;
+
+      index = document.update(content, preserve.end, preserve.end, " ", index);
     }
 
     return index;
   }
 
-  adjustHeaderLevels(content: MagicString, offset = -1) {
-    const lines = content.current.split("\n");
-    let inCodeBlock = false;
-    let currentOffset = 0;
-    let index = offset;
-    const edits: { start: number; end: number; text: string }[] = [];
+  /**
+   * Shift the levels of all headings, so the smallest one becomes the `headerStartLevel`. Headings
+   * whose level would be out of range are left as they are.
+   */
+  async adjustHeaderLevels(content: MagicString, offset = -1) {
+    const document = await this.getDocument(content);
+    // Setext headings only have two levels, and are turned into ATX headings by Prettier anyway.
+    const headings = document.headings.filter(({ hashes }) => hashes !== -1);
+    if (headings.length === 0) return offset;
 
-    // Find the minimum header level in the document
-    let minLevel = 100;
-    let hasHeader = false;
+    // If the smallest level is 5 (#####) and the start level is 2 (##), we shift by 2 - 5 = -3.
+    const shift = this.settings.headerStartLevel - Math.min(...headings.map(({ level }) => level));
+    if (shift === 0) return offset;
 
-    for (const line of lines) {
-      if (line.trim().startsWith("```")) {
-        inCodeBlock = !inCodeBlock;
-      }
-      if (!inCodeBlock) {
-        const match = line.match(/^(\s*)(#+)(\s+)/);
-        if (match) {
-          hasHeader = true;
-          const hashes = match[2]!;
-          if (hashes.length < minLevel) {
-            minLevel = hashes.length;
-          }
-        }
+    let index = offset;
+    for (const heading of headings) {
+      const level = heading.level + shift;
+      if (level >= 1 && level <= 6) {
+        const { hashes } = heading;
+        index = document.update(content, hashes, hashes + heading.level, "#".repeat(level), index);
       }
     }
 
-    if (!hasHeader) return index;
+    return index;
+  }
 
-    const targetStartLevel = this.settings.headerStartLevel;
-    // Calculate how much we need to shift.
-    // If minLevel is 5 (#####) and target is 2 (##), we shift by 2 - 5 = -3.
-    // So ##### (5) becomes ## (2).
-    const shift = targetStartLevel - minLevel;
+  /**
+   * Number headings with the styles in the `headerNumbering` settings, see `numberHeadings`.
+   * Existing numbering written by the plugin is replaced, so the numbers stay in order when
+   * headings are moved, and the numbering written this time is recorded for the file, unless it is
+   * a dry run.
+   */
+  // eslint-disable-next-line max-params
+  async addHeaderNumbering(
+    content: MagicString,
+    offset = -1,
+    file: TFile | null = null,
+    dryRun = false,
+  ) {
+    const document = await this.getDocument(content);
+    const headings = document.headings.map(({ level, text }) => ({ level, text }));
+    const generated = file ? this.numberingRecords.get(file.path) : [];
+    const numberings = numberHeadings(headings, this.settings.headerNumbering, generated);
+    const index = this.applyNumberings(content, document, numberings, offset);
+
+    if (file && !dryRun) {
+      const records = numberings.flatMap(({ existing, prefix }, i) =>
+        prefix ? [{ prefix, text: headings[i]!.text.slice(existing).trim() }] : [],
+      );
+      // Records matching the headings before numbering are kept, in case the result is discarded,
+      // e.g. in a preview.
+      const texts = new Set(headings.map(({ text }) => text.trim()));
+      const written = new Set(records.map(({ prefix, text }) => `${prefix}${text}`));
+      const kept = generated.filter(({ prefix, text }) => {
+        const heading = `${prefix}${text}`;
+
+        return texts.has(heading) && !written.has(heading);
+      });
 
-    if (shift === 0) return index;
+      this.numberingRecords.set(file.path, [...records, ...kept]);
+    }
 
-    inCodeBlock = false;
-    currentOffset = 0;
+    return index;
+  }
 
-    for (const line of lines) {
-      const lineLength = line.length + 1;
+  /**
+   * Rewrite links within the note to the headings changed by Prettier or the previous steps, e.g.
+   * `[[#Intro]]` to `[[#1. Intro]]`. Links in other notes are updated by `linkUpdater`.
+   */
+  async updateHeadingLinks(content: MagicString, offset = -1, file: TFile | null = null) {
+    if (!content.isModified) return offset;
 
-      if (line.trim().startsWith("```")) {
-        inCodeBlock = !inCodeBlock;
-      }
+    const document = await this.getDocument(content);
+    const { headings } = await this.getOriginalDocument(content);
+    const renames = createHeadingRenames(headings, document.headings);
+    if (renames.size === 0) return offset;
 
-      if (!inCodeBlock) {
-        const match = line.match(/^(\s*)(#+)(\s+)/);
-        if (match) {
-          const indent = match[1]!;
-          const hashes = match[2]!;
-          const currentLevel = hashes.length;
-          const newLevel = currentLevel + shift;
-
-          if (newLevel !== currentLevel && newLevel >= 1 && newLevel <= 6) {
-            const start = currentOffset + indent.length;
-            const end = start + hashes.length;
-            edits.push({
-              start,
-              end,
-              text: "#".repeat(newLevel),
-            });
-          }
-        }
+    let index = offset;
+    for (const link of [...document.links]) {
+      const source = content.current.slice(link.start, link.end);
+      const path = parseLink(source)?.path;
+      const isExternal =
+        path && (!file || this.app.metadataCache.getFirstLinkpathDest(path, file.path) !== file);
+      if (isExternal) continue;
+
+      const replacement = rewriteLink(source, renames);
+      if (replacement !== null) {
+        index = document.update(content, link.start, link.end, replacement, index);
       }
-      currentOffset += lineLength;
     }
 
-    for (const edit of edits.reverse()) {
-      index = content.update(edit.start, edit.end, edit.text, index);
+    return index;
+  }
+
+  /**
+   * Regenerate the table of contents between the `<!-- toc -->` and `<!-- tocstop -->` markers,
+   * with the headings as they are after the previous steps, e.g. numbered.
+   */
+  async generateToc(content: MagicString, offset = -1) {
+    const document = await this.getDocument(content);
+    const range = findTocRange(document);
+    if (!range) return offset;
+
+    const toc = renderToc(document.headings, {
+      startLevel: this.settings.headerStartLevel,
+      depth: this.settings.tocDepth,
+    });
+    const text = `\n\n${toc ? `${toc}\n\n` : ""}${range.hasEnd ? "" : TOC_END_MARKER}`;
+    if (content.current.slice(range.start, range.end) === text) return offset;
+
+    return document.update(content, range.start, range.end, text, offset);
+  }
+
+  /**
+   * Remove the heading numbering written by the plugin from the editor content, and forget it.
+   */
+  async removeHeaderNumbering(editor: Editor, file: TFile | null) {
+    if (!file) return;
+
+    const content = new MagicString(editor.getValue());
+    const document = await this.getDocument(content);
+    const numberings = removeNumbering(
+      document.headings,
+      this.settings.headerNumbering,
+      this.numberingRecords.get(file.path),
+    );
+    const offset = this.applyNumberings(
+      content,
+      document,
+      numberings,
+      content.positionToOffset(editor.getCursor()),
+    );
+
+    if (!content.isModified) {
+      showNotice(fmt("notice:remove-numbering-none"));
+
+      return;
     }
 
-    return index;
+    if (this.applyContent(editor, content, offset)) {
+      this.numberingRecords.delete(file.path);
+    }
   }
 
-  addHeaderNumbering(content: MagicString, offset = -1) {
-    const lines = content.current.split("\n");
-    let inCodeBlock = false;
-    let currentOffset = 0;
-    let index = offset;
-    let counters: number[] = [];
-    const edits: { start: number; end: number; text: string }[] = [];
-
-    // Find min level to correctly calculate relative level
-    let minLevel = 100;
-    for (const line of lines) {
-      if (line.trim().startsWith("```")) {
-        inCodeBlock = !inCodeBlock;
-      }
-      if (!inCodeBlock) {
-        const match = line.match(/^(\s*)(#+)(\s+)/);
-        if (match) {
-          const hashes = match[2]!;
-          if (hashes.length < minLevel) {
-            minLevel = hashes.length;
-          }
-        }
-      }
+  /**
+   * The document parsed from the content, parsed again if the text has been changed without it.
+   */
+  private async getDocument(content: MagicString) {
+    let document = this.documents.get(content);
+    if (document?.text !== content.current) {
+      document = await MarkdownDocument.parse(content.current);
+      this.documents.set(content, document);
     }
 
-    if (minLevel === 100) return index;
+    return document;
+  }
 
-    inCodeBlock = false;
-    currentOffset = 0;
+  private async getOriginalDocument(content: MagicString) {
+    let document = this.originalDocuments.get(content);
+    if (!document) {
+      document = await MarkdownDocument.parse(content.original);
+      this.originalDocuments.set(content, document);
+    }
 
-    for (const line of lines) {
-      const lineLength = line.length + 1;
+    return document;
+  }
 
-      if (line.trim().startsWith("```")) {
-        inCodeBlock = !inCodeBlock;
-      }
+  /**
+   * Ask to update the links in other notes to the headings changed in the content, with the
+   * documents already parsed by the steps.
+   */
+  private async updateLinksInOtherNotes(file: TFile, content: MagicString, isAutomatic = false) {
+    if (!this.settings.updateHeadingLinks) return;
+
+    const [before, after] = await Promise.all([
+      this.getOriginalDocument(content),
+      this.getDocument(content),
+    ]);
+    await this.linkUpdater.update(file, before.headings, after.headings, isAutomatic);
+  }
 
-      if (!inCodeBlock) {
-        const match = line.match(/^(\s*)(#+)(\s+)(.*)$/);
-        if (match) {
-          const indent = match[1]!;
-          const hashes = match[2]!;
-          const space = match[3]!;
-          const text = match[4]!;
-
-          // Calculate relative level: minLevel -> 1, minLevel+1 -> 2, etc.
-          const level = hashes.length - minLevel + 1;
-
-          // If header levels are adjusted, we need to use the adjusted level
-          // But wait, addHeaderNumbering runs AFTER adjustHeaderLevels?
-          // In formatFile/formatContent:
-          // 1. removeExtraSpaces
-          // 2. addTrailingSpaces
-          // 3. adjustHeaderLevels
-          // 4. addHeaderNumbering
-          //
-          // So if adjustHeaderLevels ran, the `hashes.length` here is already the adjusted level.
-          // And `minLevel` calculated at start of this function is also based on adjusted levels.
-          // So if targetStartLevel is 2, the document starts with ## (level 2).
-          // minLevel = 2.
-          // First header ##: level = 2 - 2 + 1 = 1.
-          // Correct.
-
-          if (level > counters.length) {
-            while (counters.length < level) counters.push(1);
-          } else {
-            counters = counters.slice(0, level);
-            counters[level - 1]!++;
-          }
-
-          const numbering = counters.join(".");
-          let prefix = `${numbering}`; // Default: no trailing dot for 1.1, 1.1.1
-
-          // Only top level (relative level 1) gets a trailing dot: "1.", "2."
-          if (level === 1) {
-            prefix += ".";
-          }
-
-          const textStartOffset = currentOffset + indent.length + hashes.length + space.length;
-          const textMatch = text.match(/^([\d\.]+)(?:\s+(.*))?$/);
-
-          if (textMatch) {
-            const existingNum = textMatch[1]!;
-            const remainingText = textMatch[2] || "";
-
-            // Check if existingNum ends with a dot (for top level) or not (for sub levels)
-            // My generated 'prefix' already handles the trailing dot logic.
-            // If existingNum is "1." and prefix is "1.", they match.
-            // If existingNum is "1" and prefix is "1.", they don't match.
-            // If existingNum is "1.1" and prefix is "1.1", they match.
-
-            if (existingNum !== prefix) {
-              const numStart = textStartOffset;
-              const numEnd = numStart + existingNum.length;
-              edits.push({
-                start: numStart,
-                end: numEnd,
-                text: prefix,
-              });
-            }
-          } else {
-            // No existing number, prepend the new number
-            edits.push({
-              start: textStartOffset,
-              end: textStartOffset,
-              text: `${prefix} `,
-            });
-          }
-        }
-      }
-      currentOffset += lineLength;
-    }
+  private applyNumberings(
+    content: MagicString,
+    document: MarkdownDocument,
+    numberings: HeadingNumbering[],
+    offset: number,
+  ) {
+    let index = offset;
 
-    for (const edit of edits.reverse()) {
-      index = content.update(edit.start, edit.end, edit.text, index);
+    for (const [i, heading] of [...document.headings].entries()) {
+      const { existing, prefix } = numberings[i]!;
+      if (heading.text.slice(0, existing) !== prefix) {
+        index = document.update(content, heading.start, heading.start + existing, prefix, index);
+      }
     }
 
     return index;
   }
 
-  getPrettierOptions(file: TFile): Options {
+  /**
+   * Options are merged in the following order, later ones take precedence:
+   *
+   * 1. Global format options
+   * 2. `embeddedLanguageFormatting` from the "Format code blocks" setting
+   * 3. The nearest `.prettierrc` file in the vault
+   * 4. Matched format overrides, in the order they are defined
+   * 5. `prettier-options` in the frontmatter
+   */
+  getPrettierOptions(file: FileLike): Options {
     const language = pluginMarkdown.languages.find(({ extensions = [] }) =>
       extensions.includes(`.${file.extension}`),
     );
@@ -397,6 +545,9 @@ export class Formatter {
       __languageMappings,
       ...this.settings.formatOptions,
       embeddedLanguageFormatting: this.settings.formatCodeBlock ? "auto" : "off",
+      ...this.configResolver.getOptions(file.path),
+      ...this.getOverrideOptions(file),
+      ...this.getFrontmatterOptions(file),
     };
   }
 
@@ -406,7 +557,7 @@ export class Formatter {
     if (!Object.hasOwn(frontmatter, USE_PRETTIER_KEY)) {
       const ignore = this.createIgnore(this.settings.ignorePatterns);
 
-      return !ignore.ignores(file.path);
+      return !ignore.ignores(file.path) && !this.configResolver.isIgnored(file.path);
     }
 
     return Boolean(frontmatter[USE_PRETTIER_KEY]);
@@ -418,12 +569,124 @@ export class Formatter {
     return Boolean(frontmatter[USE_FAST_MODE_KEY]);
   }
 
-  private getFrontmatter(file: TFile) {
+  private registerBuiltinSteps() {
+    this.pipeline.register({
+      id: "remove-extra-spaces",
+      name: fmt("step:remove-extra-spaces-name"),
+      scope: "both",
+      run: (content, offset, { settings }) =>
+        settings.removeExtraSpaces ? this.removeExtraSpaces(content, offset) : offset,
+    });
+
+    this.pipeline.register({
+      id: "add-trailing-spaces",
+      name: fmt("step:add-trailing-spaces-name"),
+      scope: "both",
+      run: (content, offset, { settings }) =>
+        settings.addTrailingSpaces ? this.addTrailingSpaces(content, offset) : offset,
+    });
+
+    this.pipeline.register({
+      id: "adjust-header-levels",
+      name: fmt("step:adjust-header-levels-name"),
+      scope: "document",
+      run: (content, offset, { settings }) =>
+        settings.headerStartLevel > 1 ? this.adjustHeaderLevels(content, offset) : offset,
+    });
+
+    // Should run after adjusting header levels, because the levels might have changed.
+    this.pipeline.register({
+      id: "add-header-numbering",
+      name: fmt("step:add-header-numbering-name"),
+      scope: "document",
+      run: (content, offset, { file, settings, dryRun }) =>
+        settings.autoNumbering ? this.addHeaderNumbering(content, offset, file, dryRun) : offset,
+    });
+
+    // Should run after the steps changing headings, so the links follow the final texts.
+    this.pipeline.register({
+      id: "update-heading-links",
+      name: fmt("step:update-heading-links-name"),
+      scope: "document",
+      run: (content, offset, { file, settings }) =>
+        settings.updateHeadingLinks ? this.updateHeadingLinks(content, offset, file) : offset,
+    });
+
+    // Should run after the steps changing headings, and after updating the links to them, since
+    // the links in the table of contents are always up to date.
+    this.pipeline.register({
+      id: "generate-toc",
+      name: fmt("step:generate-toc-name"),
+      scope: "document",
+      run: (content, offset) => this.generateToc(content, offset),
+    });
+  }
+
+  private async transformContent(
+    editor: Editor,
+    file: TFile,
+    {
+      uploadImages = this.settings.uploadImagesOnFormat,
+      fastMode = this.shouldUseFastMode(file),
+    } = {},
+  ) {
+    const content = new MagicString(editor.getValue());
+    const options = this.getPrettierOptions(file);
+
+    let offset = -1;
+    if (!fastMode) {
+      offset = content.positionToOffset(editor.getCursor());
+    }
+
+    if (uploadImages) {
+      offset = await this.imageUploader.uploadImages(content, file, offset);
+    }
+
+    if (fastMode) {
+      content.mutate(await prettier.format(content.current, options));
+    } else {
+      const result = await prettier.formatWithCursor(content.current, {
+        cursorOffset: offset,
+        ...options,
+      });
+      content.mutate(result.formatted);
+      offset = result.cursorOffset;
+    }
+
+    offset = await this.pipeline.run(content, offset, {
+      file,
+      scope: "document",
+      settings: this.settings,
+    });
+
+    return { content, offset };
+  }
+
+  private getFrontmatter(file: FileLike) {
     const metadata = this.app.metadataCache.getCache(file.path) || {};
 
     return metadata.frontmatter || {};
   }
 
+  private getOverrideOptions(file: FileLike) {
+    const toPatterns = (files: string | string[] = []) => [files].flat().join("\n");
+
+    return this.settings.formatOverrides
+      .filter(({ files, excludeFiles }) => {
+        const isIncluded = this.createIgnore(toPatterns(files)).ignores(file.path);
+        const isExcluded = this.createIgnore(toPatterns(excludeFiles)).ignores(file.path);
+
+        return isIncluded && !isExcluded;
+      })
+      .reduce<Options>((options, override) => ({ ...options, ...override.options }), {});
+  }
+
+  private getFrontmatterOptions(file: FileLike): Options {
+    const options = this.getFrontmatter(file)[FORMAT_OPTIONS_KEY];
+
+    return isPlainObject(options) ? (options as Options) : {};
+  }
+
   private createIgnore(patterns: string) {
     if (this.ignoreCache.has(patterns)) {
       return this.ignoreCache.get(patterns)!;
@@ -0,0 +1,196 @@
+import { parseLinktext } from "obsidian";
+
+import { fmt } from "./i18n";
+import { HeadingLinksModal } from "./modals/heading-links";
+import { logger, showNotice } from "./utils/common";
+import { createHeadingRenames, rewriteLink } from "./utils/heading-links";
+import { MarkdownDocument } from "./utils/markdown";
+import { MagicString } from "./utils/string";
+
+import type PrettierPlugin from "./main";
+import type { Settings } from "./model";
+import type { HeadingLinkEntry } from "./modals/heading-links";
+import type { HeadingRenames } from "./utils/heading-links";
+import type { HeadingMatch } from "./utils/markdown";
+import type { App, TFile } from "obsidian";
+
+/**
+ * Rewrite links in other notes to the headings changed by formatting, e.g. by adding numbering,
+ * after confirmation. Links within the formatted note are rewritten by the `update-heading-links`
+ * step instead.
+ */
+export class HeadingLinkUpdater {
+  private app: App;
+  private settings: Settings;
+  // Entries collected during a batch run, keyed by the path of the linking note
+  private pending: Map<string, HeadingLinkEntry> | null = null;
+  // Entries from automatic formats, asked for with the next manual one
+  private deferred = new Map<string, HeadingLinkEntry>();
+
+  constructor(plugin: PrettierPlugin) {
+    this.app = plugin.app;
+    this.settings = plugin.settings;
+  }
+
+  /**
+   * Find the links to the headings changed from `before` to `after` in the file, parsed by the
+   * formatter, and ask to update them. During a batch run, they are asked for once at the end
+   * instead. Automatic formats, e.g. on idle, do not interrupt with the confirmation, it is shown
+   * with the next manual format.
+   */
+  // eslint-disable-next-line max-params
+  async update(file: TFile, before: HeadingMatch[], after: HeadingMatch[], isAutomatic = false) {
+    if (!this.settings.updateHeadingLinks) return;
+
+    const renames = createHeadingRenames(before, after);
+    const entries = renames.size === 0 ? [] : this.collect(file, renames);
+
+    if (this.pending) {
+      this.merge(this.pending, entries);
+    } else if (isAutomatic) {
+      this.merge(this.deferred, entries);
+      if (entries.length > 0) {
+        showNotice(fmt("notice:heading-links-deferred", { count: String(this.deferred.size) }));
+      }
+    } else {
+      this.merge(this.deferred, entries);
+      this.confirm(this.takeDeferred());
+    }
+  }
+
+  /**
+   * Run the callback, collecting the links to update from all formatted files into one
+   * confirmation shown at the end.
+   */
+  async batch<T>(callback: () => Promise<T>) {
+    this.pending = new Map();
+
+    try {
+      return await callback();
+    } finally {
+      this.merge(this.deferred, [...this.pending.values()]);
+      this.pending = null;
+      this.confirm(this.takeDeferred());
+    }
+  }
+
+  private merge(target: Map<string, HeadingLinkEntry>, entries: HeadingLinkEntry[]) {
+    for (const entry of entries) {
+      const existing = target.get(entry.file.path);
+      if (existing) {
+        existing.changes.push(...entry.changes);
+      } else {
+        target.set(entry.file.path, entry);
+      }
+    }
+  }
+
+  private takeDeferred() {
+    const entries = [...this.deferred.values()];
+    this.deferred.clear();
+
+    return entries;
+  }
+
+  /**
+   * Links to the file in other notes resolved by the metadata cache, whose subpaths contain the
+   * renamed headings.
+   */
+  private collect(file: TFile, renames: HeadingRenames) {
+    const { metadataCache, vault } = this.app;
+
+    const entries: HeadingLinkEntry[] = [];
+    for (const [source, targets] of Object.entries(metadataCache.resolvedLinks)) {
+      if (source === file.path || !targets[file.path]) continue;
+
+      const sourceFile = vault.getFileByPath(source);
+      const cache = sourceFile && metadataCache.getFileCache(sourceFile);
+      if (!cache) continue;
+
+      const changes = new Map<string, string>();
+      for (const { link, original } of [...(cache.links ?? []), ...(cache.embeds ?? [])]) {
+        const { path, subpath } = parseLinktext(link);
+        if (!subpath || changes.has(original)) continue;
+        if (metadataCache.getFirstLinkpathDest(path, source) !== file) continue;
+
+        const replacement = rewriteLink(original, renames);
+        if (replacement !== null) {
+          changes.set(original, replacement);
+        }
+      }
+
+      if (changes.size > 0) {
+        entries.push({
+          file: sourceFile,
+          changes: [...changes].map(([original, replacement]) => ({ original, replacement })),
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  private confirm(entries: HeadingLinkEntry[]) {
+    if (entries.length === 0) return;
+
+    new HeadingLinksModal(this.app, entries, () => this.apply(entries)).open();
+  }
+
+  /**
+   * Replace the links found by parsing the notes again, rather than at the positions in the
+   * metadata cache, which may be outdated after the notes are formatted in the same batch. The same
+   * text in code and math is left as is.
+   */
+  private async apply(entries: HeadingLinkEntry[]) {
+    let updated = 0;
+    let notes = 0;
+    for (const { file, changes } of entries) {
+      try {
+        const text = await this.app.vault.read(file);
+        const { content, count } = await this.replace(text, changes);
+
+        await this.app.vault.process(file, data => {
+          if (data !== text) throw new Error("The note has been changed while updating links.");
+
+          return content.current;
+        });
+        updated += count;
+        notes++;
+      } catch (error) {
+        logger(`Error updating heading links: ${file.path}`, error);
+      }
+    }
+
+    showNotice(
+      fmt("notice:heading-links-result", { links: String(updated), notes: String(notes) }),
+    );
+  }
+
+  private async replace(text: string, changes: HeadingLinkEntry["changes"]) {
+    // The parsed range of an embedded wikilink starts after the `!`.
+    const replacements = new Map(
+      changes.map(({ original, replacement }) =>
+        original.startsWith("![[")
+          ? [original.slice(1), replacement.slice(1)]
+          : [original, replacement],
+      ),
+    );
+
+    const { links } = await MarkdownDocument.parse(text);
+    const content = new MagicString(text);
+
+    // Apply replacements in reverse order to preserve indices, links within replaced ones are kept.
+    let count = 0;
+    let limit = Infinity;
+    for (const { start, end } of links.toSorted((a, b) => b.start - a.start)) {
+      const replacement = replacements.get(text.slice(start, end));
+      if (replacement === undefined || end > limit) continue;
+
+      content.update(start, end, replacement);
+      limit = start;
+      count++;
+    }
+
+    return { content, count };
+  }
+}
@@ -11,8 +11,217 @@ export const EN = {
   },
   "notice:load-settings-error": "Error loading plugin settings, please check the console logs.",
   "notice:register-plugin-error": "Error registering plugin, please check the console logs.",
+  "notice:preview-no-changes": "The content is already formatted.",
+  "notice:preview-outdated": "The content has been changed since the preview, please preview again.",
+  "notice:batch-progress": {
+    template: "Formatting notes: ${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:batch-dry-run-progress": {
+    template: "Checking notes: ${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:batch-cancel-button-name": "Cancel",
+  "notice:batch-running": "Another batch formatting task is running, please wait for it to finish.",
+  "notice:batch-result": {
+    template: "Formatted ${total} notes: ${changed} changed, ${skipped} skipped, ${failed} failed.",
+    placeholder: {
+      total: "",
+      processed: "",
+      changed: "",
+      skipped: "",
+      failed: "",
+    },
+  },
+  "notice:batch-cancelled": {
+    template:
+      "Formatting cancelled after ${processed} of ${total} notes: ${changed} changed, ${skipped} skipped, ${failed} failed.",
+    placeholder: {
+      total: "",
+      processed: "",
+      changed: "",
+      skipped: "",
+      failed: "",
+    },
+  },
+  "notice:upload-images-result": {
+    template: "Uploaded ${count} images.",
+    placeholder: {
+      count: "",
+    },
+  },
+  "notice:upload-format-unsupported": {
+    template: "Images cannot be converted to ${format} here, so they are uploaded in their original format.",
+    placeholder: {
+      format: "",
+    },
+  },
+  "notice:upload-no-images": "No images to upload.",
+  "notice:upload-not-configured":
+    "The image upload provider is not configured, please check the settings.",
+  "notice:upload-outdated":
+    "The content has been changed while uploading, the links are not replaced. Please upload again.",
+  "notice:upload-progress": {
+    template: "Uploading images in notes: ${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:upload-cache-cleared": "The upload cache has been cleared.",
+  "notice:download-no-images": "No remote images found in the note.",
+  "notice:download-outdated":
+    "The content has been changed while downloading, the links are not replaced. Please download again.",
+  "notice:download-result": {
+    template: "Downloaded ${downloaded} images, ${failed} failed.",
+    placeholder: {
+      downloaded: "",
+      failed: "",
+    },
+  },
+  "notice:orphan-none": "No unused uploaded images found.",
+  "notice:orphan-scan-progress": {
+    template: "Looking for unused uploaded images in notes and canvases: ${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:orphan-delete-result": {
+    template: "Deleted ${deleted} uploaded images, ${failed} failed.",
+    placeholder: {
+      deleted: "",
+      failed: "",
+    },
+  },
+  "notice:remove-numbering-none": "No heading numbering to remove in the note.",
+  "notice:heading-links-result": {
+    template: "Updated ${links} links in ${notes} notes.",
+    placeholder: {
+      links: "",
+      notes: "",
+    },
+  },
+  "notice:heading-links-deferred": {
+    template:
+      "Headings linked from ${count} other notes have changed. Format a note manually to update the links.",
+    placeholder: {
+      count: "",
+    },
+  },
   "command:format-content-name": "Format all content",
   "command:format-selection-name": "Format selected content",
+  "command:preview-format-name": "Preview formatting of all content",
+  "command:format-vault-name": "Format all notes in the vault",
+  "command:format-vault-dry-run-name": "List notes in the vault that would be formatted (dry run)",
+  "command:upload-images-name": "Upload images in current note",
+  "command:upload-images-vault-name": "Upload images in all notes in the vault",
+  "command:inspect-upload-cache-name": "Inspect the upload cache",
+  "command:clear-upload-cache-name": "Clear the upload cache",
+  "command:download-images-name": "Download remote images in current note",
+  "command:find-orphaned-uploads-name": "Find uploaded images not used in any note",
+  "command:remove-heading-numbering-name": "Remove heading numbering in current note",
+  "menu:format-file-name": "Format note",
+  "menu:format-folder-name": "Format notes in folder",
+  "menu:format-files-name": "Format selected notes",
+  "menu:upload-file-name": "Upload images in note",
+  "menu:upload-folder-name": "Upload images in folder",
+  "menu:upload-files-name": "Upload images in selected notes",
+  "modal:preview-title": "Preview formatting",
+  "modal:preview-hunk-name": {
+    template: "Lines ${start}-${end}",
+    placeholder: {
+      start: "",
+      end: "",
+    },
+  },
+  "modal:preview-accept-all-button-name": "Accept all",
+  "modal:preview-reject-all-button-name": "Reject all",
+  "modal:preview-apply-button-name": "Apply",
+  "modal:dry-run-title": {
+    template: "${count} notes would be changed",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:dry-run-cancelled-title": {
+    template: "${count} notes would be changed (cancelled after ${processed} of ${total} notes)",
+    placeholder: {
+      count: "",
+      processed: "",
+      total: "",
+    },
+  },
+  "modal:dry-run-empty": "All notes are already formatted.",
+  "modal:upload-confirm-title": {
+    template: "Upload ${count} images?",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:upload-confirm-cancel-button-name": "Cancel",
+  "modal:upload-confirm-upload-button-name": "Upload",
+  "modal:upload-cache-title": {
+    template: "Upload cache (${count} images)",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:upload-cache-empty": "No images have been uploaded yet.",
+  "modal:upload-cache-delete-button-name": "Delete",
+  "modal:upload-cache-clear-button-name": "Clear",
+  "modal:upload-report-title": {
+    template: "Uploaded ${uploaded} images, ${failed} failed",
+    placeholder: {
+      uploaded: "",
+      failed: "",
+    },
+  },
+  "modal:upload-report-cancelled": {
+    template: "Uploading cancelled after ${processed} of ${total} notes.",
+    placeholder: {
+      processed: "",
+      total: "",
+    },
+  },
+  "modal:upload-report-uploaded": "Uploaded",
+  "modal:upload-report-cached": "Cached",
+  "modal:upload-report-failed": "Failed",
+  "modal:upload-report-close-button-name": "Close",
+  "modal:upload-report-retry-button-name": "Retry failed",
+  "modal:orphaned-uploads-title": {
+    template: "Uploaded images not used in any note (${count})",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:orphaned-uploads-description":
+    "Deleting removes the selected images from the storage of their providers, and cannot be undone. Forgetting only stops listing them here.",
+  "modal:orphaned-uploads-close-button-name": "Close",
+  "modal:orphaned-uploads-forget-button-name": "Forget selected",
+  "modal:orphaned-uploads-delete-button-name": "Delete selected",
+  "modal:heading-links-title": {
+    template: "Update links in ${count} notes?",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:heading-links-description":
+    "Formatting has changed headings which are linked from the following notes. Update the links to the new headings?",
+  "modal:heading-links-skip-button-name": "Skip",
+  "modal:heading-links-update-button-name": "Update links",
+  "step:remove-extra-spaces-name": "Remove extra spaces",
+  "step:add-trailing-spaces-name": "Add trailing spaces",
+  "step:adjust-header-levels-name": "Adjust header levels",
+  "step:add-header-numbering-name": "Add header numbering",
+  "step:update-heading-links-name": "Update links to changed headings",
+  "step:generate-toc-name": "Generate table of contents",
   "setting:error-boundary-title": "Settings panel failed to load",
   "setting:error-boundary-description":
     "Error loading settings panel, please check the error message below.",
@@ -21,11 +230,20 @@ export const EN = {
   "setting:format-on-file-change-name": "Format on file change",
   "setting:format-on-file-change-description":
     "Format the last opened file when the file is closed or switched to another file.",
+  "setting:format-on-idle-name": "Format on idle",
+  "setting:format-on-idle-description":
+    "Format the current content after typing has stopped for a while. Skipped while text is selected or being composed by an input method, and discarded if you type again during formatting. Images are not uploaded.",
+  "setting:format-on-idle-delay-name": "Idle delay",
+  "setting:format-on-idle-delay-description":
+    "Milliseconds without typing before formatting on idle, at least 500.",
+  "setting:format-on-modify-name": "Format on modify",
+  "setting:format-on-modify-description":
+    "Format files after they are modified on disk, e.g. by autosave, sync or other plugins. Files open in an editor with unsaved changes are skipped.",
   "setting:format-code-block-name": "Format code blocks",
   "setting:format-code-block-description":
     "Include code blocks when formatting. Currently supports js(x), ts(x), css, scss, less, html, json, and yaml.",
   "setting:remove-extra-spaces-name": "Remove extra spaces",
-  "setting:remove-extra-spaces-description": (
+  "setting:remove-extra-spaces-description": () => (
     <>
       Remove extra spaces after bullet points in unordered lists. See{" "}
       <a href="https://github.com/prettier/prettier/issues/4114">issues#4114</a> and{" "}
@@ -39,23 +257,153 @@ export const EN = {
   "setting:header-start-level-description": "Select the starting level (1-6) for top-level headers. E.g., if 2 is selected, # becomes ##, ## becomes ###.",
   "setting:auto-numbering-name": "Auto Numbering",
   "setting:auto-numbering-description": "Automatically add hierarchical numbering to headers (e.g., 1. 1.1 1.1.1).",
+  "setting:numbering-levels-name": "Numbering levels",
+  "setting:numbering-levels-description":
+    "The first and the last heading level to number. Numbering starts at the smallest level in the note if it is larger.",
+  "setting:numbering-separator-name": "Numbering separator",
+  "setting:numbering-separator-description": "Separator between the numbers of {path}, e.g. 1.2.",
+  "setting:numbering-templates-name": "Numbering templates",
+  "setting:numbering-templates-description":
+    "One template per line for each level from the first numbered one, the last line is used for deeper levels. {path} is the numbers of the heading and its parents, like 1.2. {n} is the number of the heading, which can be written as {n:roman}, {n:upper-roman}, {n:alpha}, {n:upper-alpha} or {n:chinese}.",
+  "setting:numbering-exclude-name": "Headings without numbering",
+  "setting:numbering-exclude-description":
+    "One heading text per line, like References. Headings ending with {.unnumbered} or {-} are not numbered either.",
+  "setting:update-heading-links-name": "Update heading links",
+  "setting:update-heading-links-description":
+    "Update links to headings changed by formatting, e.g. by numbering. Links within the note are updated directly, links in other notes after confirmation.",
+  "setting:toc-depth-name": "Table of contents depth",
+  "setting:toc-depth-description":
+    "Number of heading levels in the table of contents, which is generated between <!-- toc --> and <!-- tocstop --> in the note.",
+  "setting:steps-name": "Formatting steps",
+  "setting:steps-description":
+    "Steps that run after Prettier, in the order listed. Built-in steps also follow their own settings above, and other plugins can register their own steps.",
+  "setting:step-scope-document": "Applies to whole documents.",
+  "setting:step-scope-selection": "Applies to selections.",
+  "setting:step-scope-both": "Applies to whole documents and selections.",
+  "setting:upload-name": "Image upload",
+  "setting:upload-description":
+    "Upload local and remote images in notes, and replace the links with the uploaded ones. Use the upload commands to upload images without formatting.",
+  "setting:upload-images-on-format-name": "Upload images on format",
+  "setting:upload-images-on-format-description":
+    "Upload images when formatting. Turn off to keep formatting offline, images are then only uploaded by the upload commands.",
+  "setting:upload-key-template-name": "Key template",
+  "setting:upload-key-template-description":
+    "Object key of uploaded images. Characters other than letters, digits, dots, underscores and dashes are replaced with dashes. Values can be truncated like {hash:8}. Placeholders:",
+  "setting:upload-key-template-preview": "Preview: ",
+  "setting:image-max-width-name": "Maximum width",
+  "setting:image-max-width-description":
+    "Scale down images wider than this, in pixels, before uploading. Set to 0 to keep the original size.",
+  "setting:image-format-name": "Convert to",
+  "setting:image-format-description":
+    "Re-encode PNG and JPEG images before uploading. The original is kept if it is smaller.",
+  "setting:image-format-original": "Keep original format",
+  "setting:image-quality-name": "Quality",
+  "setting:image-quality-description":
+    "Quality of resized JPEG images and converted WebP and AVIF images, from 1 to 100.",
+  "setting:image-strip-metadata-name": "Strip metadata",
+  "setting:image-strip-metadata-description":
+    "Remove EXIF, XMP and text metadata, like the camera and the location, from PNG and JPEG images before uploading. Resized and converted images never keep it.",
+  "setting:upload-concurrency-name": "Concurrent uploads",
+  "setting:upload-concurrency-description": "Maximum number of images uploaded at the same time.",
+  "setting:upload-retries-name": "Retries",
+  "setting:upload-retries-description":
+    "Number of retries when an upload fails because of the network, a rate limit or a server error. The delay between retries starts at 1 second and doubles each time.",
+  "setting:upload-timeout-name": "Timeout",
+  "setting:upload-timeout-description":
+    "Seconds to wait for each upload, timed out uploads are not retried. Set to 0 to wait indefinitely.",
+  "setting:upload-provider-name": "Provider",
+  "setting:secret-description":
+    "Saved on this device only, not in data.json, so it is not synced. Enter it again on other devices.",
+  "setting:secret-show": "Show",
+  "setting:secret-hide": "Hide",
+  "setting:sts-endpoint-name": "Temporary credentials URL (optional)",
+  "setting:sts-endpoint-description":
+    "Fetch short-lived STS credentials from this URL with GET instead of using the keys above. The JSON response of Tencent Cloud, AWS and Aliyun STS is accepted, the credentials are fetched again shortly before they expire.",
   "setting:tencent-cos-name": "Tencent Cloud COS",
-  "setting:tencent-cos-description": "Configure Tencent Cloud Object Storage (COS) for automatic image uploads.",
+  "setting:tencent-cos-description": "Upload images to Tencent Cloud Object Storage (COS).",
   "setting:tencent-cos-secret-id": "SecretId",
   "setting:tencent-cos-secret-key": "SecretKey",
   "setting:tencent-cos-bucket": "Bucket Name",
   "setting:tencent-cos-region": "Region",
   "setting:tencent-cos-domain": "Custom Domain (Optional)",
+  "setting:s3-name": "S3 compatible storage",
+  "setting:s3-description":
+    "Upload images to Amazon S3 or S3 compatible storage, such as MinIO and Cloudflare R2.",
+  "setting:s3-endpoint": "Endpoint (optional for Amazon S3)",
+  "setting:s3-region": "Region",
+  "setting:s3-bucket": "Bucket name",
+  "setting:s3-access-key-id": "Access key ID",
+  "setting:s3-secret-access-key": "Secret access key",
+  "setting:s3-domain": "Custom domain (optional)",
+  "setting:s3-path-style-name": "Path style",
+  "setting:s3-path-style-description":
+    "Put the bucket name in the path instead of the host name, required by MinIO in most setups.",
+  "setting:aliyun-oss-name": "Aliyun OSS",
+  "setting:aliyun-oss-description": "Upload images to Aliyun Object Storage Service (OSS).",
+  "setting:aliyun-oss-access-key-id": "AccessKey ID",
+  "setting:aliyun-oss-access-key-secret": "AccessKey secret",
+  "setting:aliyun-oss-bucket": "Bucket name",
+  "setting:aliyun-oss-region": "Region",
+  "setting:aliyun-oss-domain": "Custom domain (optional)",
+  "setting:http-upload-name": "HTTP endpoint",
+  "setting:http-upload-description": "Upload images to a custom HTTP endpoint.",
+  "setting:http-upload-url-name": "URL",
+  "setting:http-upload-url-description":
+    "The upload URL, in which {key} is replaced with the object key.",
+  "setting:http-upload-method": "Method",
+  "setting:http-upload-headers-name": "Headers",
+  "setting:http-upload-headers-description":
+    "Request headers (in JSON format), e.g. for authorization. Saved on this device only, not in data.json, so they are not synced. Enter them again on other devices.",
+  "setting:http-upload-field-name-name": "Form field name",
+  "setting:http-upload-field-name-description":
+    "The name of the form field containing the image, only used with POST.",
+  "setting:http-upload-response-path-name": "Response URL path",
+  "setting:http-upload-response-path-description":
+    "The path of the image URL in the JSON response, e.g. data.url. When empty, the custom domain or the request URL is used with PUT, and the response text is used with POST.",
+  "setting:http-upload-domain-name": "Custom domain (optional)",
+  "setting:http-upload-domain-description":
+    "The domain to serve the uploaded images, images under it are not uploaded again.",
+  "setting:local-attachments-name": "Vault attachments folder",
+  "setting:local-attachments-description":
+    "Copy images into a folder in the vault instead of uploading them.",
+  "setting:local-attachments-folder-name": "Folder",
+  "setting:local-attachments-folder-description":
+    "Images outside the folder are copied into it. When empty, the attachment folder configured in Obsidian is used, and only remote images are copied.",
+  "setting:download-name": "Image download",
+  "setting:download-description":
+    "Download remote images in the current note into the vault with the command, and link to the local copies.",
+  "setting:download-folder-name": "Folder",
+  "setting:download-folder-description":
+    "Folder to save downloaded images in. When empty, the attachment folder configured in Obsidian is used.",
+  "setting:download-link-style-name": "Link style",
+  "setting:download-link-style-description":
+    "Format of links to downloaded images. Images in reference definitions always use relative paths.",
+  "setting:download-link-style-wikilink": "Wikilink",
+  "setting:download-link-style-markdown": "Markdown with relative path",
   "setting:format-options-name": "Format options",
-  "setting:format-options-description": (
+  "setting:format-options-description": () => (
     <>
       Formatting options passed to Prettier (in JSON format). See{" "}
       <a href="https://prettier.io/docs/en/configuration">Prettier documentation</a> for more
       details.
     </>
   ),
+  "setting:format-overrides-name": "Format overrides",
+  "setting:format-overrides-description": () => (
+    <>
+      Format options for specific files (in JSON format), like the <code>overrides</code> field of
+      Prettier configuration. Each rule has <code>files</code>, optional{" "}
+      <code>excludeFiles</code> and <code>options</code>. The patterns use the same syntax as the
+      ignore patterns. Matched rules are merged on top of the format options in order, and{" "}
+      <code>prettier-options</code> in the frontmatter is merged last. See{" "}
+      <a href="https://prettier.io/docs/en/configuration#configuration-overrides">
+        Prettier documentation
+      </a>{" "}
+      for more details.
+    </>
+  ),
   "setting:ignore-patterns-name": "Ignore patterns",
-  "setting:ignore-patterns-description": (
+  "setting:ignore-patterns-description": () => (
     <>
       List of glob patterns to ignore when formatting. If the current file has enabled or disabled
       formatting separately via frontmatter, this setting will be ignored. See{" "}
@@ -15,8 +15,10 @@ type StringLangKey = {
   [K in keyof Lang]: Lang[K] extends string ? K : never;
 }[keyof Lang];
 
+// Fragments are created when they are used, so the strings can be loaded without a DOM, e.g. in
+// tests, and each use gets its own nodes.
 type FragmentLangKey = {
-  [K in keyof Lang]: Lang[K] extends JSX.Element ? K : never;
+  [K in keyof Lang]: Lang[K] extends () => JSX.Element ? K : never;
 }[keyof Lang];
 
 type TemplateLangKey = {
@@ -24,7 +26,11 @@ type TemplateLangKey = {
 }[keyof Lang];
 
 type ComponentLangKey = {
-  [K in keyof Lang]: Lang[K] extends (props: Record<string, string>) => JSX.Element ? K : never;
+  [K in keyof Lang]: Lang[K] extends () => JSX.Element
+    ? never
+    : Lang[K] extends (props: Record<string, string>) => JSX.Element
+      ? K
+      : never;
 }[keyof Lang];
 
 const maps: Record<string, Lang> = {
@@ -44,20 +50,17 @@ export const fmt: Fmt = (key: LangKey, record?: unknown): any => {
   const lang = maps[locale] || EN;
   const value = lang[key];
 
-  if (isString(value) || value instanceof DocumentFragment) {
+  if (isString(value)) {
     return value;
-  } else if (value instanceof HTMLElement) {
-    return <>{value}</>;
   }
 
   if (isFunction(value)) {
-    if (!record) {
+    if (!record && value.length > 0) {
       throw new Error(`Props are required for key: ${key}.`);
     }
 
-    const Component = value;
-    const props = record as Record<string, string>;
-    const element = <Component {...props} />;
+    const Component: (props: Record<string, string>) => JSX.Element = value;
+    const element = Component((record ?? {}) as Record<string, string>);
 
     return element instanceof HTMLElement ? <>{element}</> : element;
   }
@@ -4,14 +4,97 @@ export type LangKey =
   | "notice:format-too-slow"
   | "notice:load-settings-error"
   | "notice:register-plugin-error"
+  | "notice:preview-no-changes"
+  | "notice:preview-outdated"
+  | "notice:batch-progress"
+  | "notice:batch-dry-run-progress"
+  | "notice:batch-cancel-button-name"
+  | "notice:batch-running"
+  | "notice:batch-result"
+  | "notice:batch-cancelled"
+  | "notice:upload-images-result"
+  | "notice:upload-format-unsupported"
+  | "notice:upload-no-images"
+  | "notice:upload-not-configured"
+  | "notice:upload-outdated"
+  | "notice:upload-progress"
+  | "notice:upload-cache-cleared"
+  | "notice:download-no-images"
+  | "notice:download-outdated"
+  | "notice:download-result"
+  | "notice:orphan-none"
+  | "notice:orphan-scan-progress"
+  | "notice:orphan-delete-result"
+  | "notice:remove-numbering-none"
+  | "notice:heading-links-result"
+  | "notice:heading-links-deferred"
   | "command:format-content-name"
   | "command:format-selection-name"
+  | "command:preview-format-name"
+  | "command:format-vault-name"
+  | "command:format-vault-dry-run-name"
+  | "command:upload-images-name"
+  | "command:upload-images-vault-name"
+  | "command:inspect-upload-cache-name"
+  | "command:clear-upload-cache-name"
+  | "command:download-images-name"
+  | "command:find-orphaned-uploads-name"
+  | "command:remove-heading-numbering-name"
+  | "menu:format-file-name"
+  | "menu:format-folder-name"
+  | "menu:format-files-name"
+  | "menu:upload-file-name"
+  | "menu:upload-folder-name"
+  | "menu:upload-files-name"
+  | "modal:preview-title"
+  | "modal:preview-hunk-name"
+  | "modal:preview-accept-all-button-name"
+  | "modal:preview-reject-all-button-name"
+  | "modal:preview-apply-button-name"
+  | "modal:dry-run-title"
+  | "modal:dry-run-cancelled-title"
+  | "modal:dry-run-empty"
+  | "modal:upload-confirm-title"
+  | "modal:upload-confirm-cancel-button-name"
+  | "modal:upload-confirm-upload-button-name"
+  | "modal:upload-cache-title"
+  | "modal:upload-cache-empty"
+  | "modal:upload-cache-delete-button-name"
+  | "modal:upload-cache-clear-button-name"
+  | "modal:upload-report-title"
+  | "modal:upload-report-cancelled"
+  | "modal:upload-report-uploaded"
+  | "modal:upload-report-cached"
+  | "modal:upload-report-failed"
+  | "modal:upload-report-close-button-name"
+  | "modal:upload-report-retry-button-name"
+  | "modal:orphaned-uploads-title"
+  | "modal:orphaned-uploads-description"
+  | "modal:orphaned-uploads-close-button-name"
+  | "modal:orphaned-uploads-forget-button-name"
+  | "modal:orphaned-uploads-delete-button-name"
+  | "modal:heading-links-title"
+  | "modal:heading-links-description"
+  | "modal:heading-links-skip-button-name"
+  | "modal:heading-links-update-button-name"
+  | "step:remove-extra-spaces-name"
+  | "step:add-trailing-spaces-name"
+  | "step:adjust-header-levels-name"
+  | "step:add-header-numbering-name"
+  | "step:update-heading-links-name"
+  | "step:generate-toc-name"
   | "setting:error-boundary-title"
   | "setting:error-boundary-description"
   | "setting:format-on-save-name"
   | "setting:format-on-save-description"
   | "setting:format-on-file-change-name"
   | "setting:format-on-file-change-description"
+  | "setting:format-on-idle-name"
+  | "setting:format-on-idle-description"
+  | "setting:format-on-idle-delay-name"
+  | "setting:format-on-idle-delay-description"
+  | "setting:format-on-modify-name"
+  | "setting:format-on-modify-description"
   | "setting:format-code-block-name"
   | "setting:format-code-block-description"
   | "setting:remove-extra-spaces-name"
@@ -22,6 +105,51 @@ export type LangKey =
   | "setting:header-start-level-description"
   | "setting:auto-numbering-name"
   | "setting:auto-numbering-description"
+  | "setting:numbering-levels-name"
+  | "setting:numbering-levels-description"
+  | "setting:numbering-separator-name"
+  | "setting:numbering-separator-description"
+  | "setting:numbering-templates-name"
+  | "setting:numbering-templates-description"
+  | "setting:numbering-exclude-name"
+  | "setting:numbering-exclude-description"
+  | "setting:update-heading-links-name"
+  | "setting:update-heading-links-description"
+  | "setting:toc-depth-name"
+  | "setting:toc-depth-description"
+  | "setting:steps-name"
+  | "setting:steps-description"
+  | "setting:step-scope-document"
+  | "setting:step-scope-selection"
+  | "setting:step-scope-both"
+  | "setting:upload-name"
+  | "setting:upload-description"
+  | "setting:upload-images-on-format-name"
+  | "setting:upload-images-on-format-description"
+  | "setting:upload-key-template-name"
+  | "setting:upload-key-template-description"
+  | "setting:upload-key-template-preview"
+  | "setting:image-max-width-name"
+  | "setting:image-max-width-description"
+  | "setting:image-format-name"
+  | "setting:image-format-description"
+  | "setting:image-format-original"
+  | "setting:image-quality-name"
+  | "setting:image-quality-description"
+  | "setting:image-strip-metadata-name"
+  | "setting:image-strip-metadata-description"
+  | "setting:upload-concurrency-name"
+  | "setting:upload-concurrency-description"
+  | "setting:upload-retries-name"
+  | "setting:upload-retries-description"
+  | "setting:upload-timeout-name"
+  | "setting:upload-timeout-description"
+  | "setting:upload-provider-name"
+  | "setting:secret-description"
+  | "setting:secret-show"
+  | "setting:secret-hide"
+  | "setting:sts-endpoint-name"
+  | "setting:sts-endpoint-description"
   | "setting:tencent-cos-name"
   | "setting:tencent-cos-description"
   | "setting:tencent-cos-secret-id"
@@ -29,8 +157,52 @@ export type LangKey =
   | "setting:tencent-cos-bucket"
   | "setting:tencent-cos-region"
   | "setting:tencent-cos-domain"
+  | "setting:s3-name"
+  | "setting:s3-description"
+  | "setting:s3-endpoint"
+  | "setting:s3-region"
+  | "setting:s3-bucket"
+  | "setting:s3-access-key-id"
+  | "setting:s3-secret-access-key"
+  | "setting:s3-domain"
+  | "setting:s3-path-style-name"
+  | "setting:s3-path-style-description"
+  | "setting:aliyun-oss-name"
+  | "setting:aliyun-oss-description"
+  | "setting:aliyun-oss-access-key-id"
+  | "setting:aliyun-oss-access-key-secret"
+  | "setting:aliyun-oss-bucket"
+  | "setting:aliyun-oss-region"
+  | "setting:aliyun-oss-domain"
+  | "setting:http-upload-name"
+  | "setting:http-upload-description"
+  | "setting:http-upload-url-name"
+  | "setting:http-upload-url-description"
+  | "setting:http-upload-method"
+  | "setting:http-upload-headers-name"
+  | "setting:http-upload-headers-description"
+  | "setting:http-upload-field-name-name"
+  | "setting:http-upload-field-name-description"
+  | "setting:http-upload-response-path-name"
+  | "setting:http-upload-response-path-description"
+  | "setting:http-upload-domain-name"
+  | "setting:http-upload-domain-description"
+  | "setting:local-attachments-name"
+  | "setting:local-attachments-description"
+  | "setting:local-attachments-folder-name"
+  | "setting:local-attachments-folder-description"
+  | "setting:download-name"
+  | "setting:download-description"
+  | "setting:download-folder-name"
+  | "setting:download-folder-description"
+  | "setting:download-link-style-name"
+  | "setting:download-link-style-description"
+  | "setting:download-link-style-wikilink"
+  | "setting:download-link-style-markdown"
   | "setting:format-options-name"
   | "setting:format-options-description"
+  | "setting:format-overrides-name"
+  | "setting:format-overrides-description"
   | "setting:ignore-patterns-name"
   | "setting:ignore-patterns-description"
   | "setting:language-mappings-name"
@@ -42,7 +214,7 @@ export type LangKey =
 export type LangValue =
   | string
   | { template: string; placeholder: Record<string, string> }
-  | JSX.Element
+  | (() => JSX.Element)
   | ((props: Record<string, string>) => JSX.Element);
 
 export type Lang = Record<LangKey, LangValue>;
@@ -11,19 +11,231 @@ export const ZH_CN = {
   },
   "notice:load-settings-error": "加载插件设置时出错，请检查控制台日志。",
   "notice:register-plugin-error": "注册插件时出错，请检查控制台日志。",
+  "notice:preview-no-changes": "内容已是格式化后的状态。",
+  "notice:preview-outdated": "预览后内容已发生变化，请重新预览。",
+  "notice:batch-progress": {
+    template: "正在格式化笔记：${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:batch-dry-run-progress": {
+    template: "正在检查笔记：${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:batch-cancel-button-name": "取消",
+  "notice:batch-running": "另一个批量格式化任务正在运行，请等待其完成。",
+  "notice:batch-result": {
+    template: "已处理 ${total} 篇笔记：${changed} 篇有改动，${skipped} 篇已跳过，${failed} 篇失败。",
+    placeholder: {
+      total: "",
+      processed: "",
+      changed: "",
+      skipped: "",
+      failed: "",
+    },
+  },
+  "notice:batch-cancelled": {
+    template:
+      "格式化已在处理 ${processed}/${total} 篇笔记后取消：${changed} 篇有改动，${skipped} 篇已跳过，${failed} 篇失败。",
+    placeholder: {
+      total: "",
+      processed: "",
+      changed: "",
+      skipped: "",
+      failed: "",
+    },
+  },
+  "notice:upload-images-result": {
+    template: "已上传 ${count} 张图片。",
+    placeholder: {
+      count: "",
+    },
+  },
+  "notice:upload-format-unsupported": {
+    template: "当前环境无法将图片转换为 ${format}，因此以原格式上传。",
+    placeholder: {
+      format: "",
+    },
+  },
+  "notice:upload-no-images": "没有需要上传的图片。",
+  "notice:upload-not-configured": "图床未配置，请检查设置。",
+  "notice:upload-outdated": "上传期间内容已被修改，链接未被替换，请重新上传。",
+  "notice:upload-progress": {
+    template: "正在上传笔记中的图片：${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:upload-cache-cleared": "上传缓存已清空。",
+  "notice:download-no-images": "笔记中没有远程图片。",
+  "notice:download-outdated": "下载期间内容已被修改，链接未被替换，请重新下载。",
+  "notice:download-result": {
+    template: "已下载 ${downloaded} 张图片，失败 ${failed} 张。",
+    placeholder: {
+      downloaded: "",
+      failed: "",
+    },
+  },
+  "notice:orphan-none": "没有未被使用的已上传图片。",
+  "notice:orphan-scan-progress": {
+    template: "正在笔记和白板中查找未被使用的已上传图片：${current}/${total}",
+    placeholder: {
+      current: "",
+      total: "",
+    },
+  },
+  "notice:orphan-delete-result": {
+    template: "已删除 ${deleted} 张已上传图片，失败 ${failed} 张。",
+    placeholder: {
+      deleted: "",
+      failed: "",
+    },
+  },
+  "notice:remove-numbering-none": "笔记中没有可以移除的标题编号。",
+  "notice:heading-links-result": {
+    template: "已更新 ${notes} 个笔记中的 ${links} 个链接。",
+    placeholder: {
+      links: "",
+      notes: "",
+    },
+  },
+  "notice:heading-links-deferred": {
+    template: "${count} 个其他笔记链接的标题已被修改。手动格式化笔记以更新这些链接。",
+    placeholder: {
+      count: "",
+    },
+  },
   "command:format-content-name": "格式化全部内容",
   "command:format-selection-name": "格式化选定内容",
+  "command:preview-format-name": "预览全部内容的格式化结果",
+  "command:format-vault-name": "格式化仓库中的所有笔记",
+  "command:format-vault-dry-run-name": "列出仓库中将被格式化的笔记（试运行）",
+  "command:upload-images-name": "上传当前笔记中的图片",
+  "command:upload-images-vault-name": "上传仓库中所有笔记的图片",
+  "command:inspect-upload-cache-name": "查看上传缓存",
+  "command:clear-upload-cache-name": "清空上传缓存",
+  "command:download-images-name": "下载当前笔记中的远程图片",
+  "command:find-orphaned-uploads-name": "查找未被任何笔记使用的已上传图片",
+  "command:remove-heading-numbering-name": "移除当前笔记中的标题编号",
+  "menu:format-file-name": "格式化笔记",
+  "menu:format-folder-name": "格式化文件夹中的笔记",
+  "menu:format-files-name": "格式化选中的笔记",
+  "menu:upload-file-name": "上传笔记中的图片",
+  "menu:upload-folder-name": "上传文件夹中的图片",
+  "menu:upload-files-name": "上传选中笔记中的图片",
+  "modal:preview-title": "预览格式化结果",
+  "modal:preview-hunk-name": {
+    template: "第 ${start}-${end} 行",
+    placeholder: {
+      start: "",
+      end: "",
+    },
+  },
+  "modal:preview-accept-all-button-name": "全部接受",
+  "modal:preview-reject-all-button-name": "全部拒绝",
+  "modal:preview-apply-button-name": "应用",
+  "modal:dry-run-title": {
+    template: "${count} 篇笔记将被修改",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:dry-run-cancelled-title": {
+    template: "${count} 篇笔记将被修改（已在 ${processed}/${total} 篇时取消）",
+    placeholder: {
+      count: "",
+      processed: "",
+      total: "",
+    },
+  },
+  "modal:dry-run-empty": "所有笔记均已格式化。",
+  "modal:upload-confirm-title": {
+    template: "上传 ${count} 张图片？",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:upload-confirm-cancel-button-name": "取消",
+  "modal:upload-confirm-upload-button-name": "上传",
+  "modal:upload-cache-title": {
+    template: "上传缓存（${count} 张图片）",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:upload-cache-empty": "尚未上传任何图片。",
+  "modal:upload-cache-delete-button-name": "删除",
+  "modal:upload-cache-clear-button-name": "清空",
+  "modal:upload-report-title": {
+    template: "已上传 ${uploaded} 张图片，${failed} 张失败",
+    placeholder: {
+      uploaded: "",
+      failed: "",
+    },
+  },
+  "modal:upload-report-cancelled": {
+    template: "上传已在处理 ${processed}/${total} 篇笔记后取消。",
+    placeholder: {
+      processed: "",
+      total: "",
+    },
+  },
+  "modal:upload-report-uploaded": "已上传",
+  "modal:upload-report-cached": "已缓存",
+  "modal:upload-report-failed": "失败",
+  "modal:upload-report-close-button-name": "关闭",
+  "modal:upload-report-retry-button-name": "重试失败的图片",
+  "modal:orphaned-uploads-title": {
+    template: "未被任何笔记使用的已上传图片 (${count})",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:orphaned-uploads-description":
+    "删除会将选中的图片从存储服务中移除，且无法撤销。忽略只会不再在此列出它们。",
+  "modal:orphaned-uploads-close-button-name": "关闭",
+  "modal:orphaned-uploads-forget-button-name": "忽略选中的图片",
+  "modal:orphaned-uploads-delete-button-name": "删除选中的图片",
+  "modal:heading-links-title": {
+    template: "更新 ${count} 个笔记中的链接？",
+    placeholder: {
+      count: "",
+    },
+  },
+  "modal:heading-links-description": "格式化修改了以下笔记所链接的标题，是否将链接更新为新的标题？",
+  "modal:heading-links-skip-button-name": "跳过",
+  "modal:heading-links-update-button-name": "更新链接",
+  "step:remove-extra-spaces-name": "删除额外空格",
+  "step:add-trailing-spaces-name": "添加尾部空格",
+  "step:adjust-header-levels-name": "调整标题层级",
+  "step:add-header-numbering-name": "添加标题编号",
+  "step:update-heading-links-name": "更新指向已修改标题的链接",
+  "step:generate-toc-name": "生成目录",
   "setting:error-boundary-title": "设置面板加载失败",
   "setting:error-boundary-description": "加载设置面板时出错，请检查下方的错误信息。",
   "setting:format-on-save-name": "保存时格式化",
   "setting:format-on-save-description": "保存文件时是否格式化当前内容。",
   "setting:format-on-file-change-name": "文件更改时格式化",
   "setting:format-on-file-change-description": "当文件关闭或切换到其他文件时格式化最后打开的文件。",
+  "setting:format-on-idle-name": "空闲时格式化",
+  "setting:format-on-idle-description":
+    "停止输入一段时间后格式化当前内容。选中文本或输入法正在输入时跳过，格式化期间继续输入则放弃本次结果。不会上传图片。",
+  "setting:format-on-idle-delay-name": "空闲延迟",
+  "setting:format-on-idle-delay-description": "停止输入多少毫秒后进行空闲格式化，最少 500。",
+  "setting:format-on-modify-name": "修改时格式化",
+  "setting:format-on-modify-description":
+    "文件在磁盘上被修改后进行格式化，例如自动保存、同步或其他插件的修改。在编辑器中打开且有未保存更改的文件将被跳过。",
   "setting:format-code-block-name": "格式化代码块",
   "setting:format-code-block-description":
     "格式化时是否包含代码块。目前支持 js(x), ts(x), css, scss, less, html, json 和 yaml。",
   "setting:remove-extra-spaces-name": "删除额外空格",
-  "setting:remove-extra-spaces-description": (
+  "setting:remove-extra-spaces-description": () => (
     <>
       是否删除无序列表中项目符号后的多余空格。详情请参考{" "}
       <a href="https://github.com/prettier/prettier/issues/4114">issues#4114</a> 和{" "}
@@ -37,22 +249,142 @@ export const ZH_CN = {
   "setting:header-start-level-description": "选择一级标题（#）转换后的起始层级（1-6）。例如选择 2，则 # 转换为 ##，## 转换为 ###。",
   "setting:auto-numbering-name": "自动编号",
   "setting:auto-numbering-description": "是否自动为标题添加层级序号（如 1. 1.1 1.1.1）。",
-  "setting:tencent-cos-name": "腾讯云图床配置",
-  "setting:tencent-cos-description": "配置腾讯云对象存储（COS）以自动上传图片。",
+  "setting:numbering-levels-name": "编号级别",
+  "setting:numbering-levels-description":
+    "添加编号的第一个和最后一个标题级别。如果笔记中最小的标题级别更大，则从该级别开始编号。",
+  "setting:numbering-separator-name": "编号分隔符",
+  "setting:numbering-separator-description": "{path} 中各级编号之间的分隔符，例如 1.2。",
+  "setting:numbering-templates-name": "编号模板",
+  "setting:numbering-templates-description":
+    "每行一个模板，从第一个编号的级别开始依次对应，更深的级别使用最后一行。{path} 为标题及其上级的编号，如 1.2。{n} 为标题自身的编号，可写作 {n:roman}、{n:upper-roman}、{n:alpha}、{n:upper-alpha} 或 {n:chinese}。例如 {n:chinese}、 和 （{n:chinese}）。",
+  "setting:numbering-exclude-name": "不编号的标题",
+  "setting:numbering-exclude-description":
+    "每行一个标题文本，如 参考文献。以 {.unnumbered} 或 {-} 结尾的标题也不会编号。",
+  "setting:update-heading-links-name": "更新标题链接",
+  "setting:update-heading-links-description":
+    "更新指向被格式化修改的标题（例如添加编号）的链接。笔记内的链接会直接更新，其他笔记中的链接在确认后更新。",
+  "setting:toc-depth-name": "目录深度",
+  "setting:toc-depth-description": "目录包含的标题层级数。目录生成在笔记中的 <!-- toc --> 和 <!-- tocstop --> 之间。",
+  "setting:steps-name": "格式化步骤",
+  "setting:steps-description":
+    "在 Prettier 之后按列表顺序运行的步骤。内置步骤同时受上方对应设置的控制，其他插件也可以注册自己的步骤。",
+  "setting:step-scope-document": "作用于整篇文档。",
+  "setting:step-scope-selection": "作用于选定内容。",
+  "setting:step-scope-both": "作用于整篇文档和选定内容。",
+  "setting:upload-name": "图片上传",
+  "setting:upload-description":
+    "上传笔记中的本地和远程图片，并将链接替换为上传后的链接。使用上传命令可以只上传图片而不格式化。",
+  "setting:upload-images-on-format-name": "格式化时上传图片",
+  "setting:upload-images-on-format-description":
+    "格式化时上传图片。关闭后格式化不会访问网络，图片只通过上传命令上传。",
+  "setting:upload-key-template-name": "对象键模板",
+  "setting:upload-key-template-description":
+    "上传图片的对象键。字母、数字、点、下划线和短横线以外的字符会被替换为短横线。值可以像 {hash:8} 这样截取。占位符：",
+  "setting:upload-key-template-preview": "预览：",
+  "setting:image-max-width-name": "最大宽度",
+  "setting:image-max-width-description":
+    "上传前将宽度超过此值的图片缩小，单位为像素。设置为 0 保持原始尺寸。",
+  "setting:image-format-name": "转换为",
+  "setting:image-format-description":
+    "上传前重新编码 PNG 和 JPEG 图片。如果原图更小则保留原图。",
+  "setting:image-format-original": "保持原格式",
+  "setting:image-quality-name": "质量",
+  "setting:image-quality-description":
+    "缩小后的 JPEG 图片以及转换后的 WebP 和 AVIF 图片的质量，范围为 1 到 100。",
+  "setting:image-strip-metadata-name": "移除元数据",
+  "setting:image-strip-metadata-description":
+    "上传前移除 PNG 和 JPEG 图片中的 EXIF、XMP 和文本元数据，例如相机和位置信息。缩小或转换后的图片总是不包含元数据。",
+  "setting:upload-concurrency-name": "并发上传数",
+  "setting:upload-concurrency-description": "同时上传的图片数量上限。",
+  "setting:upload-retries-name": "重试次数",
+  "setting:upload-retries-description":
+    "因网络、限流或服务器错误上传失败时的重试次数。重试间隔从 1 秒开始，每次翻倍。",
+  "setting:upload-timeout-name": "超时时间",
+  "setting:upload-timeout-description":
+    "每次上传的等待秒数，超时的上传不会重试。设置为 0 则一直等待。",
+  "setting:upload-provider-name": "图床",
+  "setting:secret-description":
+    "只保存在当前设备上，不写入 data.json，因此不会被同步。在其他设备上需要重新输入。",
+  "setting:secret-show": "显示",
+  "setting:secret-hide": "隐藏",
+  "setting:sts-endpoint-name": "临时凭据地址 (可选)",
+  "setting:sts-endpoint-description":
+    "通过 GET 请求从此地址获取 STS 临时凭据，代替上方的密钥。支持腾讯云、AWS 和阿里云 STS 的 JSON 响应，凭据会在过期前重新获取。",
+  "setting:tencent-cos-name": "腾讯云 COS",
+  "setting:tencent-cos-description": "上传图片到腾讯云对象存储（COS）。",
   "setting:tencent-cos-secret-id": "SecretId",
   "setting:tencent-cos-secret-key": "SecretKey",
   "setting:tencent-cos-bucket": "存储桶名称 (Bucket)",
   "setting:tencent-cos-region": "存储区域 (Region)",
   "setting:tencent-cos-domain": "自定义域名 (可选)",
+  "setting:s3-name": "S3 兼容存储",
+  "setting:s3-description": "上传图片到 Amazon S3 或 S3 兼容存储，例如 MinIO 和 Cloudflare R2。",
+  "setting:s3-endpoint": "服务地址 (Endpoint，Amazon S3 可不填)",
+  "setting:s3-region": "存储区域 (Region)",
+  "setting:s3-bucket": "存储桶名称 (Bucket)",
+  "setting:s3-access-key-id": "Access Key ID",
+  "setting:s3-secret-access-key": "Secret Access Key",
+  "setting:s3-domain": "自定义域名 (可选)",
+  "setting:s3-path-style-name": "路径风格",
+  "setting:s3-path-style-description":
+    "将存储桶名称放在路径中而不是域名中，大多数 MinIO 部署需要开启。",
+  "setting:aliyun-oss-name": "阿里云 OSS",
+  "setting:aliyun-oss-description": "上传图片到阿里云对象存储（OSS）。",
+  "setting:aliyun-oss-access-key-id": "AccessKey ID",
+  "setting:aliyun-oss-access-key-secret": "AccessKey Secret",
+  "setting:aliyun-oss-bucket": "存储桶名称 (Bucket)",
+  "setting:aliyun-oss-region": "存储区域 (Region)",
+  "setting:aliyun-oss-domain": "自定义域名 (可选)",
+  "setting:http-upload-name": "HTTP 接口",
+  "setting:http-upload-description": "上传图片到自定义的 HTTP 接口。",
+  "setting:http-upload-url-name": "URL",
+  "setting:http-upload-url-description": "上传地址，其中的 {key} 会被替换为对象键。",
+  "setting:http-upload-method": "请求方法",
+  "setting:http-upload-headers-name": "请求头",
+  "setting:http-upload-headers-description":
+    "请求头（JSON 格式），例如用于身份验证。只保存在当前设备上，不写入 data.json，因此不会被同步。在其他设备上需要重新输入。",
+  "setting:http-upload-field-name-name": "表单字段名",
+  "setting:http-upload-field-name-description": "包含图片的表单字段名，仅用于 POST。",
+  "setting:http-upload-response-path-name": "响应 URL 路径",
+  "setting:http-upload-response-path-description":
+    "图片 URL 在 JSON 响应中的路径，例如 data.url。为空时，PUT 使用自定义域名或请求地址，POST 使用响应文本。",
+  "setting:http-upload-domain-name": "自定义域名 (可选)",
+  "setting:http-upload-domain-description": "访问上传后图片的域名，该域名下的图片不会被重复上传。",
+  "setting:local-attachments-name": "库内附件文件夹",
+  "setting:local-attachments-description": "将图片复制到库内的文件夹，而不是上传。",
+  "setting:local-attachments-folder-name": "文件夹",
+  "setting:local-attachments-folder-description":
+    "文件夹外的图片会被复制到其中。为空时使用 Obsidian 中设置的附件文件夹，并且只复制远程图片。",
+  "setting:download-name": "图片下载",
+  "setting:download-description":
+    "通过命令将当前笔记中的远程图片下载到库中，并链接到本地副本。",
+  "setting:download-folder-name": "文件夹",
+  "setting:download-folder-description":
+    "保存下载图片的文件夹。为空时使用 Obsidian 中设置的附件文件夹。",
+  "setting:download-link-style-name": "链接格式",
+  "setting:download-link-style-description":
+    "下载图片的链接格式。引用定义中的图片始终使用相对路径。",
+  "setting:download-link-style-wikilink": "Wiki 链接",
+  "setting:download-link-style-markdown": "Markdown 相对路径",
   "setting:format-options-name": "格式化选项",
-  "setting:format-options-description": (
+  "setting:format-options-description": () => (
     <>
       传递给 Prettier 的格式化选项（json 格式）。详情请参考{" "}
       <a href="https://prettier.io/docs/en/configuration">Prettier 文档</a>。
     </>
   ),
+  "setting:format-overrides-name": "格式化选项覆盖",
+  "setting:format-overrides-description": () => (
+    <>
+      针对特定文件的格式化选项（json 格式），类似 Prettier 配置中的 <code>overrides</code>{" "}
+      字段。每条规则包含 <code>files</code>、可选的 <code>excludeFiles</code> 和{" "}
+      <code>options</code>，模式语法与忽略模式相同。匹配的规则按顺序合并到格式化选项之上，frontmatter
+      中的 <code>prettier-options</code> 最后合并。详情请参考{" "}
+      <a href="https://prettier.io/docs/en/configuration#configuration-overrides">Prettier 文档</a>。
+    </>
+  ),
   "setting:ignore-patterns-name": "忽略模式",
-  "setting:ignore-patterns-description": (
+  "setting:ignore-patterns-description": () => (
     <>
       格式化时要忽略的模式列表。如果当前文件通过 frontmatter
       单独启用或禁用格式化，此设置将被忽略。详情请参考{" "}
@@ -0,0 +1,193 @@
+import { normalizePath, requestUrl } from "obsidian";
+
+import { fmt } from "./i18n";
+import { isRemoteUrl } from "./uploaders";
+import { mapConcurrent } from "./utils/async";
+import { logger, showNotice } from "./utils/common";
+import { getAvailablePath, getRelativePath } from "./utils/file";
+import { changeExtension } from "./utils/image";
+import { findImages } from "./utils/markdown";
+import { MagicString } from "./utils/string";
+
+import type { Formatter } from "./formatter";
+import type PrettierPlugin from "./main";
+import type { ImageMatch } from "./utils/markdown";
+import type { App, Editor, TFile } from "obsidian";
+
+// Characters not allowed in file names by Obsidian or by some platforms.
+const REGEXP_UNSAFE_FILENAME = /[\\/:*?"<>|#^[\]]+/g;
+
+const getFilename = (url: string) => {
+  const name = url.split(/[?#]/)[0]!.split("/").pop() || "";
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(name);
+  } catch {
+    decoded = name;
+  }
+
+  return decoded.replace(REGEXP_UNSAFE_FILENAME, "-").trim() || `image-${Date.now()}`;
+};
+
+/**
+ * Download remote images into the vault and link to the local copies, the reverse of uploading.
+ * Images in `<img>` tags are skipped, since Obsidian cannot resolve vault paths in HTML.
+ */
+export class ImageDownloader {
+  private plugin: PrettierPlugin;
+  private app: App;
+  private formatter: Formatter;
+
+  constructor(plugin: PrettierPlugin, formatter: Formatter) {
+    this.plugin = plugin;
+    this.app = plugin.app;
+    this.formatter = formatter;
+  }
+
+  async downloadEditor(editor: Editor, file: TFile | null) {
+    if (!file) return;
+
+    const content = new MagicString(editor.getValue());
+    const images = await this.findImages(content.original);
+    if (images.length === 0) {
+      showNotice(fmt("notice:download-no-images"));
+
+      return;
+    }
+
+    const offset = content.positionToOffset(editor.getCursor());
+    const result = await this.download(content, file, images, offset);
+
+    if (content.isModified && !this.formatter.applyContent(editor, content, result.offset)) {
+      // The links are not replaced, so the downloaded images would be left unused.
+      await Promise.all(result.files.map(image => this.deleteImage(image)));
+      showNotice(fmt("notice:download-outdated"));
+
+      return;
+    }
+
+    showNotice(
+      fmt("notice:download-result", {
+        downloaded: String(result.downloaded),
+        failed: String(result.failed),
+      }),
+    );
+  }
+
+  async findImages(text: string) {
+    const images = await findImages(text);
+
+    return images.filter(({ type, url }) => type !== "html" && isRemoteUrl(url));
+  }
+
+  /**
+   * Download the given images, found in the original content, and replace their links. Each URL is
+   * downloaded once even if it is embedded multiple times. The created files are returned, so they
+   * can be deleted if the content cannot be applied.
+   */
+  async download(content: MagicString, file: TFile, images: ImageMatch[], offset = -1) {
+    const urls = [...new Set(images.map(({ url }) => url))];
+
+    const fetched = await mapConcurrent(urls, this.plugin.settings.uploadConcurrency, async url => {
+      try {
+        return await this.fetchImage(url);
+      } catch (error) {
+        logger(`Error downloading image: ${url}`, error);
+
+        return null;
+      }
+    });
+
+    // Files are created one by one, so that images with the same name get different paths.
+    const downloaded = new Map<string, TFile>();
+    for (const [i, image] of fetched.entries()) {
+      if (!image) continue;
+
+      try {
+        downloaded.set(urls[i]!, await this.saveImage(image, file));
+      } catch (error) {
+        logger(`Error saving image: ${urls[i]}`, error);
+      }
+    }
+
+    // Apply replacements in reverse order to preserve indices
+    let index = offset;
+    for (const match of images.toSorted((a, b) => b.start - a.start)) {
+      const image = downloaded.get(match.url);
+      if (!image) continue;
+
+      index =
+        this.plugin.settings.imageDownload.linkStyle === "wikilink" && match.type === "image"
+          ? content.update(match.start, match.end, this.toWikilink(match, image, file), index)
+          : content.update(match.urlStart, match.urlEnd, this.toPath(image, file), index);
+    }
+
+    return {
+      offset: index,
+      files: [...downloaded.values()],
+      downloaded: downloaded.size,
+      failed: urls.length - downloaded.size,
+    };
+  }
+
+  private async fetchImage(url: string) {
+    const response = await requestUrl({ url });
+    const header = Object.entries(response.headers).find(
+      ([name]) => name.toLowerCase() === "content-type",
+    );
+    const contentType = (header?.[1] || "").split(";")[0]!.trim();
+    if (!contentType.startsWith("image/")) {
+      throw new Error(`Not an image: ${contentType || "unknown content type"}.`);
+    }
+
+    return { body: response.arrayBuffer, filename: changeExtension(getFilename(url), contentType) };
+  }
+
+  private async saveImage(
+    { body, filename }: { body: ArrayBuffer; filename: string },
+    file: TFile,
+  ) {
+    const { vault, fileManager } = this.app;
+    const { folder: setting } = this.plugin.settings.imageDownload;
+    const folder = setting.trim() ? normalizePath(setting) : "";
+
+    let path: string;
+    if (folder) {
+      if (!vault.getAbstractFileByPath(folder)) {
+        await vault.createFolder(folder);
+      }
+
+      path = getAvailablePath(vault, normalizePath(`${folder}/${filename}`));
+    } else {
+      path = await fileManager.getAvailablePathForAttachment(filename, file.path);
+    }
+
+    return vault.createBinary(path, body);
+  }
+
+  private async deleteImage(image: TFile) {
+    try {
+      await this.app.fileManager.trashFile(image);
+    } catch (error) {
+      logger(`Error deleting image: ${image.path}`, error);
+    }
+  }
+
+  /**
+   * `![[image.png|alt|300]]`, with the shortest link text which resolves to the image. Wikilinks
+   * have no title, so the title of the Markdown image is dropped.
+   */
+  private toWikilink(match: ImageMatch, image: TFile, file: TFile) {
+    const linktext = this.app.metadataCache.fileToLinktext(image, file.path, false);
+
+    return `![[${linktext}${match.alt ? `|${match.alt}` : ""}]]`;
+  }
+
+  /**
+   * Relative path from the note to the image, spaces are encoded as Obsidian does.
+   */
+  private toPath(image: TFile, file: TFile) {
+    return getRelativePath(file.path, image.path).replace(/ /g, "%20");
+  }
+}
@@ -1,269 +1,194 @@
-import COS from "cos-js-sdk-v5";
-import { Notice, requestUrl } from "obsidian";
+import { requestUrl } from "obsidian";
+
+import { fmt } from "./i18n";
+import { UploadCache } from "./upload-cache";
+import { UploadRecords } from "./upload-records";
+import { createUploader, isRemoteUrl, isTransientError, toLinkpath } from "./uploaders";
+import { mapConcurrent, retry, withTimeout } from "./utils/async";
+import { logger, showNotice } from "./utils/common";
+import { sha256Hex } from "./utils/crypto";
+import { changeExtension, getContentType, processImage } from "./utils/image";
+import { DEFAULT_KEY_TEMPLATE, renderKeyTemplate } from "./utils/key-template";
+import { findImages, toMarkdownImage } from "./utils/markdown";
 
 import type PrettierPlugin from "./main";
+import type { Uploader } from "./uploaders";
+import type { ImageMatch } from "./utils/markdown";
 import type { MagicString } from "./utils/string";
 import type { TFile } from "obsidian";
 
-interface ImageMatch {
-  alt: string;
+export interface UploadResult {
+  /**
+   * The note which embeds the image.
+   */
+  file: TFile;
   url: string;
-  start: number;
-  end: number;
-  urlStart: number;
-  urlEnd: number;
+  status: "uploaded" | "cached" | "failed";
+  newUrl?: string;
+  error?: string;
 }
 
+// Delay before the first retry, doubled for each following one.
+const RETRY_DELAY = 1000;
+
 export class ImageUploader {
   private plugin: PrettierPlugin;
-  private cos: any;
-  private failedUrls: Set<string> = new Set();
+  // The unsupported format is only reported once, not for every image.
+  private hasReportedFormat = false;
+
+  cache: UploadCache;
+  records: UploadRecords;
 
   constructor(plugin: PrettierPlugin) {
     this.plugin = plugin;
+    this.cache = new UploadCache(plugin);
+    this.records = new UploadRecords(plugin);
   }
 
-  async uploadImages(content: MagicString, file: TFile, offset = -1) {
-    if (!this.plugin.settings.tencentCos) {
-      return offset;
-    }
+  isConfigured() {
+    return createUploader(this.plugin).isConfigured();
+  }
 
-    const { bucket, region, domain } = this.plugin.settings.tencentCos;
+  /**
+   * Find images in the text which would be uploaded by the selected provider.
+   */
+  async findImages(text: string, file: TFile) {
+    const uploader = createUploader(this.plugin);
+    if (!uploader.isConfigured()) return [];
 
-    if (!bucket || !region) {
-      return offset;
-    }
+    const images = await findImages(text);
 
-    if (!this.initCos()) return offset;
+    return images.filter(({ url }) => !uploader.isUploaded(url, file.path));
+  }
 
-    const matches = this.findImageMatches(content.original);
-    if (matches.length === 0) return offset;
+  /**
+   * Upload images in the content, used when formatting. The result is shown in a notice, or in the
+   * upload report if any image failed.
+   */
+  async uploadImages(content: MagicString, file: TFile, offset = -1) {
+    const images = await this.findImages(content.original, file);
+    const result = await this.upload(content, file, images, offset);
 
-    let index = offset;
-    const uploads: Promise<{ match: ImageMatch; newUrl: string | null }>[] = [];
-
-    for (const match of matches) {
-      const shouldUpload = this.shouldUpload(match.url, domain || "");
-      const logMessage = `[ImageUploader] Original: ${match.url}, Should Upload: ${shouldUpload ? "Yes" : "No"}`;
-      console.log(logMessage);
-
-      if (shouldUpload) {
-        uploads.push(
-          this.uploadImage(match.url, file).then(newUrl => {
-            console.log(
-              `[ImageUploader] Result - Original: ${match.url}, New: ${newUrl || "Failed"}`,
-            );
-            return {
-              match,
-              newUrl,
-            };
-          }),
-        );
-      }
+    if (result.results.some(({ status }) => status === "failed")) {
+      this.plugin.batchUploader.showReport(result.results);
+    } else if (result.results.length > 0) {
+      showNotice(fmt("notice:upload-images-result", { count: String(result.results.length) }));
     }
 
-    const results = await Promise.all(uploads);
-
-    // Apply replacements in reverse order to preserve indices
-    results.sort((a, b) => b.match.start - a.match.start);
+    return result.offset;
+  }
 
-    for (const { match, newUrl } of results) {
-      if (newUrl) {
-        index = content.update(match.urlStart, match.urlEnd, newUrl, index);
-      }
-    }
+  /**
+   * Upload the given images, found in the original content, and replace their links. Each image is
+   * uploaded once even if it is embedded multiple times. Only the URL is replaced so that the alt
+   * text, the size and the title are kept, wikilink embeds are turned into Markdown images.
+   *
+   * At most `uploadConcurrency` images are uploaded at once. Transient errors are retried with
+   * exponential backoff, while uploads exceeding `uploadTimeout` fail without retrying, since the
+   * request may still be running.
+   */
+  async upload(content: MagicString, file: TFile, images: ImageMatch[], offset = -1) {
+    const uploader = createUploader(this.plugin);
+    const urls = [...new Set(images.map(({ url }) => url))];
+
+    const results = await mapConcurrent(urls, this.plugin.settings.uploadConcurrency, url =>
+      this.uploadImage(uploader, url, file),
+    );
+    const newUrls = new Map(results.map(({ url, newUrl }) => [url, newUrl]));
 
-    const uploadedCount = results.filter(r => r.newUrl).length;
-    if (uploadedCount > 0) {
-      // eslint-disable-next-line no-new
-      new Notice(`Uploaded ${uploadedCount} images to Tencent COS.`);
-    } else {
-      console.log("[ImageUploader] No images uploaded.");
+    // Apply replacements in reverse order to preserve indices
+    let index = offset;
+    for (const match of images.toSorted((a, b) => b.start - a.start)) {
+      const newUrl = newUrls.get(match.url);
+      if (!newUrl) continue;
+
+      index =
+        match.type === "wikilink"
+          ? content.update(match.start, match.end, toMarkdownImage(match.alt, newUrl), index)
+          : content.update(match.urlStart, match.urlEnd, newUrl, index);
     }
 
-    return index;
+    return { offset: index, results };
   }
 
-  private initCos() {
-    if (!this.plugin.settings.tencentCos) {
-      return false;
-    }
-    const { secretId, secretKey } = this.plugin.settings.tencentCos;
-    if (!secretId || !secretKey) {
-      return false;
-    }
+  private async readImage(url: string, file: TFile) {
+    if (isRemoteUrl(url)) {
+      const response = await requestUrl({ url });
+      const filename = url.split("/").pop()?.split("?")[0] || `image-${Date.now()}.png`;
 
-    if (!this.cos) {
-      this.cos = new COS({
-        SecretId: secretId,
-        SecretKey: secretKey,
-      });
+      return { body: response.arrayBuffer, filename };
     }
-    return true;
-  }
 
-  private findImageMatches(text: string): ImageMatch[] {
-    const regex = /!\[(.*?)\]\((.*?)\)/g;
-    const matches: ImageMatch[] = [];
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      const alt = match[1] || "";
-      const url = match[2] || "";
-      const start = match.index;
-      const end = start + match[0].length;
-      // ![alt](url)
-      // start is at !
-      // urlStart is after ![alt](
-      const urlStart = start + 2 + alt.length + 2;
-      const urlEnd = urlStart + url.length;
-
-      matches.push({
-        alt,
-        url,
-        start,
-        end,
-        urlStart,
-        urlEnd,
-      });
-    }
-
-    // Also match HTML <img> tags
-    // <img src="url" ... />
-    // This regex is simplified and might not catch all cases (like newlines in attributes), but works for standard cases
-    const imgTagRegex = /<img\s+[^>]*src=["']([^"']+)["'][^>]*>/g;
-
-    // We need to iterate again or reuse 'match' variable
-    let imgMatch;
-    while ((imgMatch = imgTagRegex.exec(text)) !== null) {
-      const url = imgMatch[1] || "";
-      const start = imgMatch.index;
-      const end = start + imgMatch[0].length;
-
-      // We need to find the exact position of the URL inside the match to replace it later
-      // match[0] is the whole tag <img ... src="url" ... >
-      // We need to find "url" inside match[0] and calculate offset
-      // Be careful if url appears multiple times in the tag (unlikely for src)
-      // But more robust way: find "src=" then find the quote then the url
-
-      const srcIndex = imgMatch[0].indexOf(url);
-      if (srcIndex !== -1) {
-        const urlStart = start + srcIndex;
-        const urlEnd = urlStart + url.length;
-
-        matches.push({
-          alt: "", // HTML img tags might have alt in another attribute, but for replacement we don't strictly need it
-          url,
-          start,
-          end,
-          urlStart,
-          urlEnd,
-        });
-      }
-    }
+    // Resolve path relative to current file or vault root
+    const { metadataCache, vault } = this.plugin.app;
+    const linkedFile = metadataCache.getFirstLinkpathDest(toLinkpath(url), file.path);
+    if (!linkedFile) return null;
 
-    return matches;
+    return { body: await vault.readBinary(linkedFile), filename: linkedFile.name };
   }
 
-  private shouldUpload(url: string, domain: string): boolean {
-    if (this.failedUrls.has(url)) {
-      console.log(`[ImageUploader] Skipping failed URL: ${url}`);
-      return false;
-    }
-    if (url.startsWith("http")) {
-      // 1. Check custom domain
-      if (domain && url.includes(domain)) {
-        return false;
-      }
+  private async uploadImage(uploader: Uploader, url: string, file: TFile): Promise<UploadResult> {
+    try {
+      const image = await this.readImage(url, file);
+      if (!image) throw new Error("Image not found in the vault.");
 
-      // 2. Check standard COS domain
-      if (this.plugin.settings.tencentCos) {
-        const { bucket, region } = this.plugin.settings.tencentCos;
-        if (bucket && region) {
-          const standardDomain = `${bucket}.cos.${region}.myqcloud.com`;
-          if (url.includes(standardDomain)) {
-            return false;
-          }
-        }
-      }
-      return true;
-    }
-    // It's a local file path
-    return true;
-  }
+      const { uploadProvider: provider, uploadKeyTemplate, imageProcessing } = this.plugin.settings;
+      // The cache is keyed by the original image, so it is not processed again.
+      const hash = await sha256Hex(image.body);
 
-  private async uploadImage(url: string, file: TFile): Promise<string | null> {
-    if (!this.plugin.settings.tencentCos) {
-      return null;
-    }
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    let filename = "";
+      // Images copied into the vault may be moved or deleted later, so they are not cached, and
+      // they are tracked by Obsidian already, so they are not recorded either.
+      const isRemote = provider !== "local";
+      const cachedUrl = isRemote && this.cache.get(provider, hash);
+      if (cachedUrl) {
+        logger(`Using cached URL for image: ${url}`);
 
-    try {
-      let body: ArrayBuffer;
-
-      if (url.startsWith("http")) {
-        // External URL
-        const response = await requestUrl({ url });
-        body = response.arrayBuffer;
-        // Guess filename from url or content-type
-        filename = url.split("/").pop()?.split("?")[0] || `image-${Date.now()}.png`;
-      } else {
-        // Local file
-        // Resolve path relative to current file or vault root
-        const linkPath = url.split("#")[0]!.split("?")[0]!;
-        const linkedFile = this.plugin.app.metadataCache.getFirstLinkpathDest(linkPath, file.path);
-        if (!linkedFile) {
-          // Cannot find local file
-          return null;
-        }
-        body = await this.plugin.app.vault.readBinary(linkedFile);
-        filename = linkedFile.name;
+        return { file, url, status: "cached", newUrl: cachedUrl };
       }
 
-      const { secretId, secretKey, bucket, region, domain } = this.plugin.settings.tencentCos;
-      if (!bucket || !region) {
-        return null;
+      const { body, contentType, isUnsupported } = await processImage(
+        image.body,
+        getContentType(image.filename),
+        imageProcessing,
+      );
+      if (isUnsupported && !this.hasReportedFormat) {
+        this.hasReportedFormat = true;
+        const format = imageProcessing.format.toUpperCase();
+        showNotice(fmt("notice:upload-format-unsupported", { format }));
       }
-      const key = `obsidian/${Date.now()}_${filename}`;
-      const uploadUrl = `https://${bucket}.cos.${region}.myqcloud.com/${key}`;
-
-      // Use requestUrl to bypass CORS
-      const authorization = COS.getAuthorization({
-        SecretId: secretId,
-        SecretKey: secretKey,
-        Method: "put",
-        Key: key,
-        Pathname: `/${key}`,
+      const filename = changeExtension(image.filename, contentType);
+
+      const key = renderKeyTemplate(uploadKeyTemplate || DEFAULT_KEY_TEMPLATE, {
+        vault: this.plugin.app.vault.getName(),
+        notePath: file.path,
+        filename,
+        hash,
+        date: new Date(),
       });
 
-      const response = await requestUrl({
-        url: uploadUrl,
-        method: "PUT",
-        headers: {
-          Authorization: authorization,
-          "Content-Type": "", // Let it be inferred or empty
-        },
-        body: body,
-      });
-
-      if (response.status >= 200 && response.status < 300) {
-        if (domain) {
-          const cleanDomain = domain.replace(/\/$/, "");
-          return `${cleanDomain}/${key}`;
-        } else {
-          return uploadUrl;
-        }
-      } else {
-        console.error("COS Upload Error:", response.status, response.text);
-        this.failedUrls.add(url);
-        // eslint-disable-next-line no-new
-        new Notice(`Failed to upload image: ${filename}`);
-        return null;
+      const { uploadRetries, uploadTimeout } = this.plugin.settings;
+      const newUrl = await retry(
+        () =>
+          withTimeout(
+            uploader.upload({ key, body, contentType, file }),
+            uploadTimeout * 1000,
+            `Upload timed out after ${uploadTimeout} seconds.`,
+          ),
+        { retries: uploadRetries, delay: RETRY_DELAY, shouldRetry: isTransientError },
+      );
+
+      if (isRemote) {
+        this.cache.set(provider, hash, newUrl);
+        this.records.add({ provider, key, url: newUrl, hash, note: file.path });
       }
+
+      return { file, url, status: "uploaded", newUrl };
     } catch (error) {
-      console.error("Upload Image Error:", error);
-      this.failedUrls.add(url);
-      return null;
+      logger(`Error uploading image: ${url}`, error);
+
+      const message = error instanceof Error ? error.message : String(error);
+
+      return { file, url, status: "failed", error: message };
     }
   }
 }
@@ -1,23 +1,59 @@
-import { MarkdownView, Plugin } from "obsidian";
+import { MarkdownView, Plugin, TFile, TFolder, debounce } from "obsidian";
 
+import { createApi } from "./api";
+import { BatchFormatter } from "./batch-formatter";
+import { BatchUploader } from "./batch-uploader";
 import { Formatter } from "./formatter";
 import { fmt } from "./i18n";
+import { ImageDownloader } from "./image-downloader";
+import { PreviewModal } from "./modals/preview";
+import { UploadCacheModal } from "./modals/upload-cache";
 import { getCurrentVersion, getDefaultSettings, migrate } from "./model";
+import { OrphanCleaner } from "./orphan-cleaner";
+import { SECRETS_STORAGE_KEY, hasSecrets, mergeSecrets, splitSecrets } from "./secrets";
 import { SettingsTab } from "./setting";
 import { logger, showNotice, withPerfNotice } from "./utils/common";
+import { isMarkdownFile } from "./utils/file";
 
-import type { Data } from "./model";
-import type { Command, EventRef, TFile } from "obsidian";
+import type { PrettierApi } from "./api";
+import type { Data, NumberedHeadingsData, UploadCacheData, UploadedObjectsData } from "./model";
+import type { Command, EventRef } from "obsidian";
+
+const MODIFY_DEBOUNCE_DELAY = 1000;
+const SAVE_DEBOUNCE_DELAY = 1000;
 
 export default class PrettierPlugin extends Plugin {
   // 获取到obdisian的默认配置
   settings = getDefaultSettings();
+  // 已上传图片的缓存，与配置一起保存在data.json中
+  uploadCache: UploadCacheData = {};
+  // 上传到远程存储的对象，用于清理不再被引用的图片
+  uploadedObjects: UploadedObjectsData = {};
+  // 插件生成的标题编号，只替换或删除这些编号
+  numberedHeadings: NumberedHeadingsData = {};
+  // 提供给其他插件调用的接口
+  api!: PrettierApi;
+  // 批量上传图片，并报告上传结果
+  batchUploader!: BatchUploader;
+  // 合并短时间内的多次保存，例如批量格式化时逐个记录的标题编号
+  requestSave = debounce(
+    () => this.saveSettings().catch(error => logger("Error saving plugin data:", error)),
+    SAVE_DEBOUNCE_DELAY,
+    true,
+  );
 
   // 当前版本号
   private version = getCurrentVersion();
   private formatter!: Formatter;
+  private batchFormatter!: BatchFormatter;
+  private imageDownloader!: ImageDownloader;
+  private orphanCleaner!: OrphanCleaner;
   private lastActiveFile: TFile | null = null;
   private events: EventRef[] = [];
+  private idleTimer: number | undefined;
+  private modifyTimers: Map<string, number> = new Map();
+  // 依次保存，避免先开始的保存较晚完成，覆盖后面保存的数据
+  private saving: Promise<void> = Promise.resolve();
   // 检查命令在当前情况下是否可以执行
   private originalSaveCallback: Command["checkCallback"];
 
@@ -32,6 +68,11 @@ export default class PrettierPlugin extends Plugin {
     }
 
     this.formatter = new Formatter(this);
+    this.batchFormatter = new BatchFormatter(this, this.formatter);
+    this.batchUploader = new BatchUploader(this, this.formatter);
+    this.imageDownloader = new ImageDownloader(this, this.formatter);
+    this.orphanCleaner = new OrphanCleaner(this, this.formatter.imageUploader);
+    this.api = createApi(this.formatter);
 
     try {
       try {
@@ -59,28 +100,63 @@ export default class PrettierPlugin extends Plugin {
     this.registerEvents();
     this.registerMenu();
 
+    this.app.workspace.onLayoutReady(() => this.formatter.configResolver.load());
+
     logger("Plugin loaded.");
 
     this.addSettingTab(new SettingsTab(this));
   }
 
+  get pipeline() {
+    return this.formatter.pipeline;
+  }
+
   override onunload() {
     this.unregisterEvents();
     this.unhookSaveCommands();
+    this.requestSave.run();
   }
 
   async loadSettings() {
     // 加载data.json，也就是插件的所有配置信息
     const data = await this.loadData();
-    const { settings } = migrate(data);
-
-    this.settings = settings;
+    const {
+      settings,
+      uploadCache = {},
+      uploadedObjects = {},
+      numberedHeadings = {},
+    } = migrate(data);
+    // 旧版本将凭据保存在data.json中，需要移到设备本地
+    const hasLegacySecrets = hasSecrets(settings);
+
+    // 凭据保存在设备本地，不随data.json同步
+    this.settings = mergeSecrets(settings, this.app.loadLocalStorage(SECRETS_STORAGE_KEY));
+    this.uploadCache = uploadCache;
+    this.uploadedObjects = uploadedObjects;
+    this.numberedHeadings = numberedHeadings;
+
+    if (hasLegacySecrets) {
+      await this.saveSettings();
+    }
   }
 
   async saveSettings() {
+    const saving = this.saving.catch(() => {}).then(() => this.writeData());
+    this.saving = saving;
+
+    await saving;
+  }
+
+  private async writeData() {
+    const { settings, secrets } = splitSecrets(this.settings);
+    this.app.saveLocalStorage(SECRETS_STORAGE_KEY, secrets);
+
     const data: Data = {
       version: this.version,
-      settings: this.settings,
+      settings,
+      uploadCache: this.uploadCache,
+      uploadedObjects: this.uploadedObjects,
+      numberedHeadings: this.numberedHeadings,
     };
 
     await this.saveData(data);
@@ -107,6 +183,105 @@ export default class PrettierPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "preview-format",
+      name: fmt("command:preview-format-name"),
+      editorCallback: async (editor, view) => {
+        const { file } = view;
+        const content = await this.formatter.previewContent(editor, file);
+        if (!file || !content) return;
+
+        if (!content.isModified) {
+          showNotice(fmt("notice:preview-no-changes"));
+
+          return;
+        }
+
+        new PreviewModal(this.app, content, async hunks => {
+          if (editor.getValue() !== content.original) {
+            showNotice(fmt("notice:preview-outdated"));
+
+            return;
+          }
+
+          await this.formatter.applyPreview(editor, file, content, hunks);
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "format-vault",
+      name: fmt("command:format-vault-name"),
+      callback: async () => {
+        await this.batchFormatter.formatVault();
+      },
+    });
+
+    this.addCommand({
+      id: "format-vault-dry-run",
+      name: fmt("command:format-vault-dry-run-name"),
+      callback: async () => {
+        await this.batchFormatter.formatVault(true);
+      },
+    });
+
+    this.addCommand({
+      id: "upload-images",
+      name: fmt("command:upload-images-name"),
+      editorCallback: async (editor, view) => {
+        await this.batchUploader.uploadEditor(editor, view.file);
+      },
+    });
+
+    this.addCommand({
+      id: "upload-images-vault",
+      name: fmt("command:upload-images-vault-name"),
+      callback: async () => {
+        await this.batchUploader.uploadVault();
+      },
+    });
+
+    this.addCommand({
+      id: "download-images",
+      name: fmt("command:download-images-name"),
+      editorCallback: async (editor, view) => {
+        await this.imageDownloader.downloadEditor(editor, view.file);
+      },
+    });
+
+    this.addCommand({
+      id: "remove-heading-numbering",
+      name: fmt("command:remove-heading-numbering-name"),
+      editorCallback: async (editor, view) => {
+        await this.formatter.removeHeaderNumbering(editor, view.file);
+      },
+    });
+
+    this.addCommand({
+      id: "inspect-upload-cache",
+      name: fmt("command:inspect-upload-cache-name"),
+      callback: () => {
+        new UploadCacheModal(this.app, this.formatter.imageUploader.cache).open();
+      },
+    });
+
+    this.addCommand({
+      id: "clear-upload-cache",
+      name: fmt("command:clear-upload-cache-name"),
+      callback: async () => {
+        await this.formatter.imageUploader.cache.clear();
+        showNotice(fmt("notice:upload-cache-cleared"));
+      },
+    });
+
+    this.addCommand({
+      id: "find-orphaned-uploads",
+      name: fmt("command:find-orphaned-uploads-name"),
+      callback: async () => {
+        await this.orphanCleaner.scan();
+      },
+    });
+
     return { formatContentCommand, formatSelectionCommand };
   }
 
@@ -141,6 +316,76 @@ export default class PrettierPlugin extends Plugin {
     );
 
     this.events.map(event => this.registerEvent(event));
+
+    this.registerEvent(
+      this.app.workspace.on("editor-change", (editor, info) => {
+        window.clearTimeout(this.idleTimer);
+        if (!this.settings.formatOnIdle) return;
+
+        this.idleTimer = window.setTimeout(async () => {
+          try {
+            await this.formatter.formatOnIdle(editor, info.file);
+          } catch (error) {
+            logger("Error formatting on idle:", error);
+          }
+        }, this.settings.formatOnIdleDelay);
+      }),
+    );
+    this.register(() => window.clearTimeout(this.idleTimer));
+
+    this.registerEvent(
+      this.app.vault.on("modify", file => {
+        if (!this.settings.formatOnModify || !(file instanceof TFile)) return;
+        if (!["md", "mdx"].includes(file.extension)) return;
+
+        window.clearTimeout(this.modifyTimers.get(file.path));
+        this.modifyTimers.set(
+          file.path,
+          window.setTimeout(async () => {
+            this.modifyTimers.delete(file.path);
+
+            try {
+              if (await this.hasUnsavedChanges(file)) return;
+
+              await this.formatter.formatOnModify(file);
+            } catch (error) {
+              logger(`Error formatting file on modify: ${file.path}`, error);
+            }
+          }, MODIFY_DEBOUNCE_DELAY),
+        );
+      }),
+    );
+    this.register(() => this.modifyTimers.forEach(timer => window.clearTimeout(timer)));
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.formatter.numberingRecords.rename(oldPath, file.path);
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", file => {
+        this.formatter.numberingRecords.delete(file.path);
+      }),
+    );
+
+    // Dot files are not indexed by the vault, so only the raw event is fired for them.
+    this.registerEvent(
+      this.app.vault.on("raw", async path => {
+        await this.formatter.configResolver.reload(path);
+      }),
+    );
+  }
+
+  private async hasUnsavedChanges(file: TFile) {
+    const views = this.app.workspace
+      .getLeavesOfType("markdown")
+      .map(leaf => leaf.view)
+      .filter(view => view instanceof MarkdownView && view.file?.path === file.path);
+    if (views.length === 0) return false;
+
+    const content = await this.app.vault.read(file);
+
+    return views.some(view => (view as MarkdownView).editor.getValue() !== content);
   }
 
   private unregisterEvents() {
@@ -195,5 +440,53 @@ export default class PrettierPlugin extends Plugin {
           );
       }),
     );
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        const isFolder = file instanceof TFolder;
+        if (!isFolder && !isMarkdownFile(file)) return;
+
+        menu.addItem(item =>
+          item
+            .setTitle(fmt(isFolder ? "menu:format-folder-name" : "menu:format-file-name"))
+            .setIcon("paintbrush")
+            .onClick(async () => {
+              await this.batchFormatter.formatFiles([file]);
+            }),
+        );
+        menu.addItem(item =>
+          item
+            .setTitle(fmt(isFolder ? "menu:upload-folder-name" : "menu:upload-file-name"))
+            .setIcon("image-up")
+            .onClick(async () => {
+              await this.batchUploader.uploadFiles([file]);
+            }),
+        );
+      }),
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("files-menu", (menu, files) => {
+        const isFormattable = files.some(file => file instanceof TFolder || isMarkdownFile(file));
+        if (!isFormattable) return;
+
+        menu.addItem(item =>
+          item
+            .setTitle(fmt("menu:format-files-name"))
+            .setIcon("paintbrush")
+            .onClick(async () => {
+              await this.batchFormatter.formatFiles(files);
+            }),
+        );
+        menu.addItem(item =>
+          item
+            .setTitle(fmt("menu:upload-files-name"))
+            .setIcon("image-up")
+            .onClick(async () => {
+              await this.batchUploader.uploadFiles(files);
+            }),
+        );
+      }),
+    );
   }
 }
@@ -0,0 +1,39 @@
+import { Modal } from "obsidian";
+
+import type { App, TFile } from "obsidian";
+
+export class FileListModal extends Modal {
+  private files: TFile[];
+  private empty: string;
+
+  constructor(app: App, title: string, files: TFile[], empty: string) {
+    super(app);
+
+    this.files = files;
+    this.empty = empty;
+    this.setTitle(title);
+  }
+
+  override onOpen() {
+    if (this.files.length === 0) {
+      this.contentEl.createEl("p", { text: this.empty });
+
+      return;
+    }
+
+    const list = this.contentEl.createEl("ul", "prettier-file-list");
+    for (const file of this.files) {
+      const link = list.createEl("li").createEl("a", { text: file.path, href: "#" });
+
+      link.addEventListener("click", event => {
+        event.preventDefault();
+        this.app.workspace.getLeaf(true).openFile(file);
+        this.close();
+      });
+    }
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,66 @@
+import { Modal, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+
+import type { App, TFile } from "obsidian";
+
+export interface HeadingLinkChange {
+  original: string;
+  replacement: string;
+}
+
+export interface HeadingLinkEntry {
+  file: TFile;
+  changes: HeadingLinkChange[];
+}
+
+export class HeadingLinksModal extends Modal {
+  private entries: HeadingLinkEntry[];
+  private onConfirm: () => void;
+
+  constructor(app: App, entries: HeadingLinkEntry[], onConfirm: () => void) {
+    super(app);
+
+    this.entries = entries;
+    this.onConfirm = onConfirm;
+
+    this.setTitle(fmt("modal:heading-links-title", { count: String(entries.length) }));
+  }
+
+  override onOpen() {
+    this.contentEl.createEl("p", { text: fmt("modal:heading-links-description") });
+
+    const list = this.contentEl.createEl("ul", "prettier-file-list");
+    for (const { file, changes } of this.entries) {
+      const item = list.createEl("li", { text: file.path });
+      const links = item.createEl("ul");
+
+      for (const { original, replacement } of changes) {
+        links.createEl("li", {
+          text: `${original} → ${replacement}`,
+          cls: "prettier-heading-links__link",
+        });
+      }
+    }
+
+    new Setting(this.contentEl)
+      .addButton(component =>
+        component.setButtonText(fmt("modal:heading-links-skip-button-name")).onClick(() => {
+          this.close();
+        }),
+      )
+      .addButton(component =>
+        component
+          .setButtonText(fmt("modal:heading-links-update-button-name"))
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          }),
+      );
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
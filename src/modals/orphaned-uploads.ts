@@ -0,0 +1,85 @@
+import { Modal, moment, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+
+import type { UploadedObject } from "@/model";
+import type { App } from "obsidian";
+
+interface OrphanActions {
+  /**
+   * Delete the selected objects from the storage of their providers.
+   */
+  onDelete: (records: UploadedObject[]) => Promise<void>;
+  /**
+   * Only remove the selected records, e.g. for objects deleted by other means.
+   */
+  onForget: (records: UploadedObject[]) => Promise<void>;
+}
+
+export class OrphanedUploadsModal extends Modal {
+  private records: UploadedObject[];
+  private actions: OrphanActions;
+  private selected: Set<UploadedObject>;
+
+  constructor(app: App, records: UploadedObject[], actions: OrphanActions) {
+    super(app);
+
+    this.records = records;
+    this.actions = actions;
+    this.selected = new Set(records);
+
+    this.setTitle(fmt("modal:orphaned-uploads-title", { count: String(records.length) }));
+  }
+
+  override onOpen() {
+    this.contentEl.createEl("p", { text: fmt("modal:orphaned-uploads-description") });
+
+    const list = this.contentEl.createDiv("prettier-upload-cache__entries");
+    for (const record of this.records) {
+      const { provider, url, note, time } = record;
+
+      new Setting(list)
+        .setName(url)
+        .setDesc(`${provider} · ${note} · ${moment(time).format("YYYY-MM-DD HH:mm")}`)
+        .addToggle(component =>
+          component.setValue(true).onChange(value => {
+            if (value) {
+              this.selected.add(record);
+            } else {
+              this.selected.delete(record);
+            }
+          }),
+        );
+    }
+
+    const run = (action: (records: UploadedObject[]) => Promise<void>) => async () => {
+      const records = this.records.filter(record => this.selected.has(record));
+      if (records.length === 0) return;
+
+      this.close();
+      await action(records);
+    };
+
+    new Setting(this.contentEl)
+      .addButton(component =>
+        component.setButtonText(fmt("modal:orphaned-uploads-close-button-name")).onClick(() => {
+          this.close();
+        }),
+      )
+      .addButton(component =>
+        component
+          .setButtonText(fmt("modal:orphaned-uploads-forget-button-name"))
+          .onClick(run(this.actions.onForget)),
+      )
+      .addButton(component =>
+        component
+          .setButtonText(fmt("modal:orphaned-uploads-delete-button-name"))
+          .setWarning()
+          .onClick(run(this.actions.onDelete)),
+      );
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
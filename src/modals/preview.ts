@@ -0,0 +1,105 @@
+import { Modal, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+import { diffLines, splitLines } from "@/utils/diff";
+
+import type { Hunk } from "@/utils/diff";
+import type { MagicString } from "@/utils/string";
+import type { App } from "obsidian";
+
+const CONTEXT_LINES = 3;
+
+export class PreviewModal extends Modal {
+  private content: MagicString;
+  private hunks: Hunk[];
+  private accepted: Set<Hunk>;
+  private onApply: (hunks: Hunk[]) => void;
+
+  constructor(app: App, content: MagicString, onApply: (hunks: Hunk[]) => void) {
+    super(app);
+
+    this.content = content;
+    this.hunks = diffLines(content.original, content.current);
+    this.accepted = new Set(this.hunks);
+    this.onApply = onApply;
+
+    this.setTitle(fmt("modal:preview-title"));
+    this.modalEl.addClass("prettier-preview");
+  }
+
+  override onOpen() {
+    this.render();
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    this.contentEl.empty();
+
+    const lines = splitLines(this.content.original).map(line => line.replace(/\n$/, ""));
+    const container = this.contentEl.createDiv("prettier-preview__hunks");
+
+    for (const hunk of this.hunks) {
+      const hunkEl = container.createDiv("prettier-preview__hunk");
+      hunkEl.toggleClass("is-rejected", !this.accepted.has(hunk));
+
+      new Setting(hunkEl)
+        .setName(
+          fmt("modal:preview-hunk-name", {
+            start: String(hunk.line + 1),
+            end: String(hunk.line + Math.max(hunk.removed.length, 1)),
+          }),
+        )
+        .addToggle(component =>
+          component.setValue(this.accepted.has(hunk)).onChange(value => {
+            if (value) {
+              this.accepted.add(hunk);
+            } else {
+              this.accepted.delete(hunk);
+            }
+
+            hunkEl.toggleClass("is-rejected", !value);
+          }),
+        );
+
+      const code = hunkEl.createEl("pre", "prettier-preview__code");
+      const addLine = (text: string, cls: string, sign: string) => {
+        code.createDiv({ text: `${sign} ${text}`, cls: `prettier-preview__line ${cls}` });
+      };
+
+      const before = lines.slice(Math.max(hunk.line - CONTEXT_LINES, 0), hunk.line);
+      const afterStart = hunk.line + hunk.removed.length;
+      const after = lines.slice(afterStart, afterStart + CONTEXT_LINES);
+
+      before.forEach(line => addLine(line, "is-context", " "));
+      hunk.removed.forEach(line => addLine(line.replace(/\n$/, ""), "is-removed", "-"));
+      hunk.added.forEach(line => addLine(line.replace(/\n$/, ""), "is-added", "+"));
+      after.forEach(line => addLine(line, "is-context", " "));
+    }
+
+    new Setting(this.contentEl)
+      .addButton(component =>
+        component.setButtonText(fmt("modal:preview-accept-all-button-name")).onClick(() => {
+          this.accepted = new Set(this.hunks);
+          this.render();
+        }),
+      )
+      .addButton(component =>
+        component.setButtonText(fmt("modal:preview-reject-all-button-name")).onClick(() => {
+          this.accepted.clear();
+          this.render();
+        }),
+      )
+      .addButton(component =>
+        component
+          .setButtonText(fmt("modal:preview-apply-button-name"))
+          .setCta()
+          .onClick(() => {
+            this.onApply(this.hunks.filter(hunk => this.accepted.has(hunk)));
+            this.close();
+          }),
+      );
+  }
+}
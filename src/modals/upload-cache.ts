@@ -0,0 +1,63 @@
+import { Modal, moment, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+
+import type { UploadCache } from "@/upload-cache";
+import type { App } from "obsidian";
+
+export class UploadCacheModal extends Modal {
+  private cache: UploadCache;
+
+  constructor(app: App, cache: UploadCache) {
+    super(app);
+
+    this.cache = cache;
+  }
+
+  override onOpen() {
+    this.render();
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    this.contentEl.empty();
+
+    const entries = this.cache.entries();
+    this.setTitle(fmt("modal:upload-cache-title", { count: String(entries.length) }));
+
+    if (entries.length === 0) {
+      this.contentEl.createEl("p", { text: fmt("modal:upload-cache-empty") });
+
+      return;
+    }
+
+    const list = this.contentEl.createDiv("prettier-upload-cache__entries");
+    for (const { provider, hash, url, time } of entries) {
+      new Setting(list)
+        .setName(url)
+        .setDesc(`${provider} · ${hash.slice(0, 12)} · ${moment(time).format("YYYY-MM-DD HH:mm")}`)
+        .addExtraButton(component =>
+          component
+            .setIcon("trash")
+            .setTooltip(fmt("modal:upload-cache-delete-button-name"))
+            .onClick(async () => {
+              await this.cache.delete(provider, hash);
+              this.render();
+            }),
+        );
+    }
+
+    new Setting(this.contentEl).addButton(component =>
+      component
+        .setButtonText(fmt("modal:upload-cache-clear-button-name"))
+        .setWarning()
+        .onClick(async () => {
+          await this.cache.clear();
+          this.render();
+        }),
+    );
+  }
+}
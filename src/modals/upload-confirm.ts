@@ -0,0 +1,57 @@
+import { Modal, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+
+import type { App, TFile } from "obsidian";
+
+export interface UploadEntry {
+  file: TFile;
+  urls: string[];
+}
+
+export class UploadConfirmModal extends Modal {
+  private entries: UploadEntry[];
+  private onConfirm: () => void;
+
+  constructor(app: App, entries: UploadEntry[], onConfirm: () => void) {
+    super(app);
+
+    this.entries = entries;
+    this.onConfirm = onConfirm;
+
+    const count = new Set(entries.flatMap(({ urls }) => urls)).size;
+    this.setTitle(fmt("modal:upload-confirm-title", { count: String(count) }));
+  }
+
+  override onOpen() {
+    const list = this.contentEl.createEl("ul", "prettier-file-list");
+    for (const { file, urls } of this.entries) {
+      const item = list.createEl("li", { text: file.path });
+      const images = item.createEl("ul");
+
+      for (const url of urls) {
+        images.createEl("li", { text: url, cls: "prettier-upload-confirm__url" });
+      }
+    }
+
+    new Setting(this.contentEl)
+      .addButton(component =>
+        component.setButtonText(fmt("modal:upload-confirm-cancel-button-name")).onClick(() => {
+          this.close();
+        }),
+      )
+      .addButton(component =>
+        component
+          .setButtonText(fmt("modal:upload-confirm-upload-button-name"))
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          }),
+      );
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
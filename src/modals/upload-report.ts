@@ -0,0 +1,98 @@
+import { Modal, Setting } from "obsidian";
+
+import { fmt } from "@/i18n";
+
+import type { UploadResult } from "@/image-uploader";
+import type { App, TFile } from "obsidian";
+
+export class UploadReportModal extends Modal {
+  private results: UploadResult[];
+  private onRetry: (() => void) | null;
+  private cancelled?: { processed: number; total: number };
+
+  constructor(
+    app: App,
+    results: UploadResult[],
+    onRetry: (() => void) | null,
+    cancelled?: { processed: number; total: number },
+  ) {
+    super(app);
+
+    this.results = results;
+    this.onRetry = onRetry;
+    this.cancelled = cancelled;
+
+    const failed = results.filter(({ status }) => status === "failed").length;
+    this.setTitle(
+      fmt("modal:upload-report-title", {
+        uploaded: String(results.length - failed),
+        failed: String(failed),
+      }),
+    );
+  }
+
+  override onOpen() {
+    if (this.cancelled) {
+      this.contentEl.createEl("p", {
+        text: fmt("modal:upload-report-cancelled", {
+          processed: String(this.cancelled.processed),
+          total: String(this.cancelled.total),
+        }),
+      });
+    }
+
+    const statuses: Record<UploadResult["status"], string> = {
+      uploaded: fmt("modal:upload-report-uploaded"),
+      cached: fmt("modal:upload-report-cached"),
+      failed: fmt("modal:upload-report-failed"),
+    };
+
+    const files = new Map<TFile, UploadResult[]>();
+    for (const result of this.results) {
+      files.set(result.file, [...(files.get(result.file) ?? []), result]);
+    }
+
+    if (files.size === 0) {
+      this.contentEl.createEl("p", { text: fmt("notice:upload-no-images") });
+    }
+
+    const list = this.contentEl.createEl("ul", "prettier-file-list");
+    for (const [file, results] of files) {
+      const images = list.createEl("li", { text: file.path }).createEl("ul");
+
+      for (const { url, status, newUrl, error } of results) {
+        const item = images.createEl("li");
+        item.createSpan({
+          text: statuses[status],
+          cls: `prettier-upload-report__status is-${status}`,
+        });
+        item.createSpan({ text: url, cls: "prettier-upload-confirm__url" });
+        item.createDiv({ text: error ?? newUrl, cls: "prettier-upload-confirm__url" });
+      }
+    }
+
+    const setting = new Setting(this.contentEl).addButton(component =>
+      component.setButtonText(fmt("modal:upload-report-close-button-name")).onClick(() => {
+        this.close();
+      }),
+    );
+
+    if (this.onRetry) {
+      const onRetry = this.onRetry;
+
+      setting.addButton(component =>
+        component
+          .setButtonText(fmt("modal:upload-report-retry-button-name"))
+          .setCta()
+          .onClick(() => {
+            this.close();
+            onRetry();
+          }),
+      );
+    }
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
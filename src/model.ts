@@ -1,31 +1,159 @@
 import { isNullish, isPlainObject } from "@goodbyenjn/utils/remeda";
 
+import { DEFAULT_KEY_TEMPLATE } from "./utils/key-template";
+import { DEFAULT_NUMBERING_TEMPLATES } from "./utils/numbering";
 import { versionStrToNum } from "./utils/version";
 
+import type { NumberedHeading, NumberingOptions } from "./utils/numbering";
 import type { Options } from "prettier";
 
 export interface Data {
   version: number;
   settings: Settings;
+  uploadCache?: UploadCacheData;
+  uploadedObjects?: UploadedObjectsData;
+  numberedHeadings?: NumberedHeadingsData;
 }
 
+export interface FormatOverride {
+  files: string | string[];
+  excludeFiles?: string | string[];
+  options: Options;
+}
+
+export interface StepState {
+  id: string;
+  enabled: boolean;
+}
+
+export type UploadProvider = "tencent-cos" | "s3" | "aliyun-oss" | "http" | "local";
+
+export type ImageFormat = "original" | "webp" | "avif";
+export type ImageLinkStyle = "wikilink" | "markdown";
+
+export interface UploadCacheEntry {
+  provider: UploadProvider;
+  /**
+   * SHA-256 of the image bytes, in hex.
+   */
+  hash: string;
+  url: string;
+  time: number;
+}
+
+/**
+ * Uploaded images keyed by `${provider}:${hash}`.
+ */
+export type UploadCacheData = Record<string, UploadCacheEntry>;
+
+export interface UploadedObject {
+  provider: UploadProvider;
+  /**
+   * Object key in the storage of the provider.
+   */
+  key: string;
+  url: string;
+  /**
+   * SHA-256 of the original image, the key of the upload cache.
+   */
+  hash: string;
+  /**
+   * Path of the note which embedded the image when it was uploaded.
+   */
+  note: string;
+  time: number;
+}
+
+/**
+ * Objects uploaded to remote providers keyed by `${provider}:${key}`.
+ */
+export type UploadedObjectsData = Record<string, UploadedObject>;
+
+/**
+ * Heading numbering written by the plugin, keyed by the path of the note.
+ */
+export type NumberedHeadingsData = Record<string, NumberedHeading[]>;
+
 export interface Settings {
   formatOnSave: boolean;
   formatOnFileChange: boolean;
+  formatOnIdle: boolean;
+  formatOnIdleDelay: number;
+  formatOnModify: boolean;
   formatCodeBlock: boolean;
   removeExtraSpaces: boolean;
   addTrailingSpaces: boolean;
   headerStartLevel: number;
   autoNumbering: boolean;
+  headerNumbering: NumberingOptions;
+  updateHeadingLinks: boolean;
+  tocDepth: number;
+  steps: StepState[];
+  uploadImagesOnFormat: boolean;
+  uploadProvider: UploadProvider;
+  uploadKeyTemplate: string;
+  uploadConcurrency: number;
+  uploadRetries: number;
+  /**
+   * Timeout of each upload in seconds, `0` to wait indefinitely.
+   */
+  uploadTimeout: number;
+  imageProcessing: {
+    maxWidth: number;
+    format: ImageFormat;
+    quality: number;
+    stripMetadata: boolean;
+  };
+  imageDownload: {
+    /**
+     * Folder for downloaded images, empty to follow the attachment settings of Obsidian.
+     */
+    folder: string;
+    linkStyle: ImageLinkStyle;
+  };
   tencentCos: {
     secretId: string;
     secretKey: string;
+    /**
+     * URL to fetch temporary credentials from, used instead of the keys if set.
+     */
+    stsEndpoint: string;
+    bucket: string;
+    region: string;
+    domain: string;
+  };
+  s3: {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    stsEndpoint: string;
+    pathStyle: boolean;
+    domain: string;
+  };
+  aliyunOss: {
+    accessKeyId: string;
+    accessKeySecret: string;
+    stsEndpoint: string;
     bucket: string;
     region: string;
     domain: string;
   };
+  httpUpload: {
+    url: string;
+    method: "PUT" | "POST";
+    headers: string;
+    fieldName: string;
+    responsePath: string;
+    domain: string;
+  };
+  localAttachments: {
+    folder: string;
+  };
   languageMappings: Record<string, string>;
   formatOptions: Options;
+  formatOverrides: FormatOverride[];
   ignorePatterns: string;
 }
 
@@ -39,6 +167,17 @@ export const getDefaultFormatOptions = (): Options => ({
   singleQuote: true,
 });
 
+// 格式化步骤默认配置
+export const getDefaultSteps = (): StepState[] =>
+  [
+    "remove-extra-spaces",
+    "add-trailing-spaces",
+    "adjust-header-levels",
+    "add-header-numbering",
+    "update-heading-links",
+    "generate-toc",
+  ].map(id => ({ id, enabled: true }));
+
 // 忽略模式默认配置
 export const getDefaultIgnorePatterns = (): string =>
   `
@@ -60,20 +199,80 @@ export const getCurrentVersion = () => {
 export const getDefaultSettings = (): Settings => ({
   formatOnSave: false,
   formatOnFileChange: false,
+  formatOnIdle: false,
+  formatOnIdleDelay: 2000,
+  formatOnModify: false,
   formatCodeBlock: false,
   removeExtraSpaces: false,
   addTrailingSpaces: false,
   headerStartLevel: 1,
   autoNumbering: false,
+  headerNumbering: {
+    startLevel: 1,
+    endLevel: 6,
+    separator: ".",
+    templates: [...DEFAULT_NUMBERING_TEMPLATES],
+    exclude: [],
+  },
+  updateHeadingLinks: true,
+  tocDepth: 3,
+  steps: getDefaultSteps(),
+  uploadImagesOnFormat: true,
+  uploadProvider: "tencent-cos",
+  uploadKeyTemplate: DEFAULT_KEY_TEMPLATE,
+  uploadConcurrency: 3,
+  uploadRetries: 2,
+  uploadTimeout: 60,
+  imageProcessing: {
+    maxWidth: 0,
+    format: "original",
+    quality: 80,
+    stripMetadata: false,
+  },
+  imageDownload: {
+    folder: "",
+    linkStyle: "wikilink",
+  },
   tencentCos: {
     secretId: "",
     secretKey: "",
+    stsEndpoint: "",
     bucket: "",
     region: "",
     domain: "",
   },
+  s3: {
+    endpoint: "",
+    region: "",
+    bucket: "",
+    accessKeyId: "",
+    secretAccessKey: "",
+    stsEndpoint: "",
+    pathStyle: false,
+    domain: "",
+  },
+  aliyunOss: {
+    accessKeyId: "",
+    accessKeySecret: "",
+    stsEndpoint: "",
+    bucket: "",
+    region: "",
+    domain: "",
+  },
+  httpUpload: {
+    url: "",
+    method: "PUT",
+    headers: "",
+    fieldName: "file",
+    responsePath: "",
+    domain: "",
+  },
+  localAttachments: {
+    folder: "",
+  },
   languageMappings: {},
   formatOptions: getDefaultFormatOptions(),
+  formatOverrides: [],
   ignorePatterns: getDefaultIgnorePatterns(),
 });
 
@@ -83,6 +282,9 @@ export const migrate = (data: unknown): Data => {
     return {
       version: getCurrentVersion(),
       settings: getDefaultSettings(),
+      uploadCache: {},
+      uploadedObjects: {},
+      numberedHeadings: {},
     };
   }
 
@@ -124,6 +326,7 @@ export const migrate = (data: unknown): Data => {
         tencentCos: {
           secretId: "",
           secretKey: "",
+          stsEndpoint: "",
           bucket: "",
           region: "",
           domain: "",
@@ -133,6 +336,53 @@ export const migrate = (data: unknown): Data => {
     return migrate(dataV2_0_2);
   }
 
-  // 2.0.2
+  // 2.0.2 -> 2.1.0
+  if (data.version === versionStrToNum("2.0.2")) {
+    const dataV2_0_2 = data as unknown as Data;
+    const {
+      headerNumbering,
+      imageProcessing,
+      imageDownload,
+      tencentCos,
+      s3,
+      aliyunOss,
+      httpUpload,
+      localAttachments,
+    } = getDefaultSettings();
+    const dataV2_1_0: Data = {
+      version: versionStrToNum("2.1.0"),
+      uploadCache: {},
+      uploadedObjects: {},
+      numberedHeadings: {},
+      settings: {
+        ...dataV2_0_2.settings,
+        formatOnIdle: false,
+        formatOnIdleDelay: 2000,
+        formatOnModify: false,
+        steps: getDefaultSteps(),
+        formatOverrides: [],
+        headerNumbering,
+        updateHeadingLinks: true,
+        tocDepth: 3,
+        uploadImagesOnFormat: true,
+        uploadProvider: "tencent-cos",
+        uploadKeyTemplate: DEFAULT_KEY_TEMPLATE,
+        uploadConcurrency: 3,
+        uploadRetries: 2,
+        uploadTimeout: 60,
+        imageProcessing,
+        imageDownload,
+        tencentCos: { ...tencentCos, ...dataV2_0_2.settings.tencentCos },
+        s3,
+        aliyunOss,
+        httpUpload,
+        localAttachments,
+      },
+    };
+
+    return migrate(dataV2_1_0);
+  }
+
+  // 2.1.0
   return data as unknown as Data;
 };
@@ -0,0 +1,73 @@
+import type PrettierPlugin from "./main";
+import type { NumberedHeading } from "./utils/numbering";
+
+/**
+ * Heading numbering written by the plugin for each note, so only the numbering it owns is replaced
+ * or removed. Persisted in the plugin data.
+ */
+export class NumberingRecords {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  get(path: string): NumberedHeading[] {
+    return this.plugin.numberedHeadings[path] ?? [];
+  }
+
+  /**
+   * Replace the records of the note, saving only if they have changed. Saves are debounced, since
+   * the records of many notes are replaced one by one when formatting them in a batch.
+   */
+  set(path: string, records: NumberedHeading[]) {
+    if (JSON.stringify(this.get(path)) === JSON.stringify(records)) return;
+
+    if (records.length > 0) {
+      this.plugin.numberedHeadings[path] = records;
+    } else {
+      delete this.plugin.numberedHeadings[path];
+    }
+
+    this.plugin.requestSave();
+  }
+
+  /**
+   * Move the records of the note, or of all notes in the folder.
+   */
+  rename(oldPath: string, newPath: string) {
+    const paths = this.findPaths(oldPath);
+    if (paths.length === 0) return;
+
+    for (const key of paths) {
+      this.plugin.numberedHeadings[newPath + key.slice(oldPath.length)] =
+        this.plugin.numberedHeadings[key]!;
+      delete this.plugin.numberedHeadings[key];
+    }
+
+    this.plugin.requestSave();
+  }
+
+  /**
+   * Delete the records of the note, or of all notes in the folder.
+   */
+  delete(path: string) {
+    const paths = this.findPaths(path);
+    if (paths.length === 0) return;
+
+    for (const key of paths) {
+      delete this.plugin.numberedHeadings[key];
+    }
+
+    this.plugin.requestSave();
+  }
+
+  /**
+   * Paths of the records of the note at the path, or of the notes in the folder at the path.
+   */
+  private findPaths(path: string) {
+    return Object.keys(this.plugin.numberedHeadings).filter(
+      key => key === path || key.startsWith(`${path}/`),
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { fmt } from "./i18n";
+import { OrphanedUploadsModal } from "./modals/orphaned-uploads";
+import { createUploader } from "./uploaders";
+import { mapConcurrent } from "./utils/async";
+import { logger, showNotice, showProgressNotice } from "./utils/common";
+import { collectReferencingFiles, findReferencedUrls } from "./utils/file";
+
+import type { ImageUploader } from "./image-uploader";
+import type PrettierPlugin from "./main";
+import type { UploadedObject } from "./model";
+import type { App } from "obsidian";
+
+/**
+ * Find uploaded images which are no longer referenced by any note, and delete them from the
+ * storage of the provider.
+ */
+export class OrphanCleaner {
+  private plugin: PrettierPlugin;
+  private app: App;
+  private imageUploader: ImageUploader;
+  private running = false;
+
+  constructor(plugin: PrettierPlugin, imageUploader: ImageUploader) {
+    this.plugin = plugin;
+    this.app = plugin.app;
+    this.imageUploader = imageUploader;
+  }
+
+  /**
+   * Scan all notes and canvases for the recorded URLs and list the ones not found in the orphans
+   * modal. An image counts as referenced if its URL appears anywhere in a file, not only in image
+   * syntax.
+   */
+  async scan() {
+    if (this.running) {
+      showNotice(fmt("notice:batch-running"));
+
+      return;
+    }
+
+    const records = this.imageUploader.records.entries();
+    const orphans = new Map(records.map(record => [record.url, record]));
+    if (orphans.size === 0) {
+      showNotice(fmt("notice:orphan-none"));
+
+      return;
+    }
+
+    this.running = true;
+
+    let cancelled = false;
+    const notice = showProgressNotice(() => {
+      cancelled = true;
+    });
+
+    try {
+      const files = collectReferencingFiles([this.app.vault.getRoot()]);
+      for (const [index, file] of files.entries()) {
+        if (cancelled || orphans.size === 0) break;
+
+        notice.setMessage(
+          fmt("notice:orphan-scan-progress", {
+            current: String(index + 1),
+            total: String(files.length),
+          }),
+        );
+
+        const content = await this.app.vault.cachedRead(file);
+        for (const url of findReferencedUrls(orphans.keys(), file.extension, content)) {
+          orphans.delete(url);
+        }
+
+        // Give the UI a chance to repaint and to handle the cancel button.
+        await sleep(0);
+      }
+    } finally {
+      notice.hide();
+      this.running = false;
+    }
+
+    // A partial scan would list images used by the notes not scanned yet.
+    if (cancelled) return;
+
+    if (orphans.size === 0) {
+      showNotice(fmt("notice:orphan-none"));
+
+      return;
+    }
+
+    new OrphanedUploadsModal(this.app, [...orphans.values()], {
+      onDelete: async selected => this.delete(selected),
+      onForget: async selected => this.imageUploader.records.delete(selected),
+    }).open();
+  }
+
+  /**
+   * Delete the objects through the API of their providers, then forget them and remove their
+   * URLs from the upload cache, so the same images are uploaded again when embedded later.
+   */
+  private async delete(records: UploadedObject[]) {
+    const { cache } = this.imageUploader;
+
+    const results = await mapConcurrent(
+      records,
+      this.plugin.settings.uploadConcurrency,
+      async record => {
+        try {
+          const uploader = createUploader(this.plugin, record.provider);
+          if (!uploader.delete) {
+            throw new Error(`Deleting is not supported by the provider: ${record.provider}.`);
+          }
+          if (!uploader.isConfigured()) {
+            throw new Error(`The provider is not configured: ${record.provider}.`);
+          }
+
+          await uploader.delete(record.key);
+
+          return true;
+        } catch (error) {
+          logger(`Error deleting uploaded image: ${record.url}`, error);
+
+          return false;
+        }
+      },
+    );
+
+    const deleted = records.filter((_, index) => results[index]);
+    for (const { provider, hash, url } of deleted) {
+      if (cache.get(provider, hash) === url) {
+        await cache.delete(provider, hash);
+      }
+    }
+    await this.imageUploader.records.delete(deleted);
+
+    showNotice(
+      fmt("notice:orphan-delete-result", {
+        deleted: String(deleted.length),
+        failed: String(records.length - deleted.length),
+      }),
+    );
+  }
+}
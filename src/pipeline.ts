@@ -0,0 +1,89 @@
+import type { Settings } from "./model";
+import type { MagicString } from "./utils/string";
+import type { TFile } from "obsidian";
+
+export type StepScope = "document" | "selection" | "both";
+
+export interface StepContext {
+  /**
+   * The file being formatted, or null when formatting text which does not belong to a file.
+   */
+  file: TFile | null;
+  scope: Exclude<StepScope, "both">;
+  settings: Settings;
+  /**
+   * Whether the result is only checked and not written, e.g. in a dry run. Steps should not save
+   * anything then.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * A post-processing step, which runs after Prettier has formatted the content.
+ */
+export interface Step {
+  id: string;
+  name: string;
+  description?: string;
+  /**
+   * Whether the step applies to whole documents, selections or both.
+   */
+  scope: StepScope;
+  /**
+   * Modify the content in place. Receives the cursor offset, and returns it after being adjusted to
+   * the modifications, or -1 if the cursor is not tracked.
+   */
+  run: (content: MagicString, offset: number, context: StepContext) => number | Promise<number>;
+}
+
+export class Pipeline {
+  private settings: Settings;
+  private steps: Map<string, Step> = new Map();
+
+  constructor(settings: Settings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Register a step, returns a function to unregister it.
+   */
+  register(step: Step) {
+    if (this.steps.has(step.id)) {
+      throw new Error(`Step is already registered: ${step.id}.`);
+    }
+
+    this.steps.set(step.id, step);
+
+    return () => this.unregister(step.id);
+  }
+
+  unregister(id: string) {
+    return this.steps.delete(id);
+  }
+
+  /**
+   * Steps are ordered as they are in the settings, steps missing from the settings are appended in
+   * the order they are registered and are enabled by default.
+   */
+  getSteps() {
+    const states = new Map(this.settings.steps.map(state => [state.id, state]));
+    const known = this.settings.steps.filter(({ id }) => this.steps.has(id)).map(({ id }) => id);
+    const unknown = [...this.steps.keys()].filter(id => !states.has(id));
+
+    return [...known, ...unknown].map(id => ({
+      step: this.steps.get(id)!,
+      enabled: states.get(id)?.enabled ?? true,
+    }));
+  }
+
+  async run(content: MagicString, offset: number, context: StepContext) {
+    let index = offset;
+    for (const { step, enabled } of this.getSteps()) {
+      if (!enabled || (step.scope !== "both" && step.scope !== context.scope)) continue;
+
+      index = await step.run(content, index, context);
+    }
+
+    return index;
+  }
+}
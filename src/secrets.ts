@@ -0,0 +1,74 @@
+import type { Settings } from "./model";
+
+/**
+ * Key of the secrets in the local storage of the device, which Obsidian scopes to the vault.
+ */
+export const SECRETS_STORAGE_KEY = "prettier-secrets";
+
+/**
+ * Credentials of the upload providers, kept out of `data.json` so they are not synced or committed
+ * along with the vault. The headers of the HTTP endpoint are kept as a whole, since they usually
+ * carry a token.
+ */
+export const SECRET_FIELDS = {
+  tencentCos: ["secretId", "secretKey"],
+  s3: ["accessKeyId", "secretAccessKey"],
+  aliyunOss: ["accessKeyId", "accessKeySecret"],
+  httpUpload: ["headers"],
+} as const satisfies { [K in keyof Settings]?: (keyof Settings[K])[] };
+
+/**
+ * Secrets keyed by the section and the field, e.g. `tencentCos.secretKey`.
+ */
+export type Secrets = Record<string, string>;
+
+type SecretSection = keyof typeof SECRET_FIELDS;
+
+const SECRET_SECTIONS = Object.keys(SECRET_FIELDS) as SecretSection[];
+
+/**
+ * Split the settings into the settings without secrets, which are saved in `data.json`, and the
+ * secrets, which are saved in the local storage.
+ */
+export const splitSecrets = (settings: Settings) => {
+  const secrets: Secrets = {};
+  const rest = { ...settings };
+
+  for (const section of SECRET_SECTIONS) {
+    const values: Record<string, unknown> = { ...settings[section] };
+    for (const field of SECRET_FIELDS[section]) {
+      if (values[field]) {
+        secrets[`${section}.${field}`] = String(values[field]);
+      }
+
+      values[field] = "";
+    }
+
+    Object.assign(rest, { [section]: values });
+  }
+
+  return { settings: rest, secrets };
+};
+
+/**
+ * Fill the secrets into the settings in place. Secrets still in `data.json`, saved by older
+ * versions, are kept if the local storage has none.
+ */
+export const mergeSecrets = (settings: Settings, secrets: Secrets | null) => {
+  for (const section of SECRET_SECTIONS) {
+    for (const field of SECRET_FIELDS[section]) {
+      const value = secrets?.[`${section}.${field}`];
+      if (value) {
+        Object.assign(settings, { [section]: { ...settings[section], [field]: value } });
+      }
+    }
+  }
+
+  return settings;
+};
+
+/**
+ * Whether any secret is in the settings, e.g. loaded from `data.json` saved by older versions.
+ */
+export const hasSecrets = (settings: Settings) =>
+  Object.keys(splitSecrets(settings).secrets).length > 0;
@@ -1,4 +1,4 @@
-import { omit } from "@goodbyenjn/utils/remeda";
+import { isPlainObject, isString, omit } from "@goodbyenjn/utils/remeda";
 import {
   ButtonComponent,
   PluginSettingTab,
@@ -9,17 +9,29 @@ import {
 
 import { fmt } from "./i18n";
 import { getDefaultFormatOptions, getDefaultIgnorePatterns } from "./model";
+import { UPLOAD_PROVIDERS } from "./uploaders";
 import { logger } from "./utils/common";
+import { DEFAULT_KEY_TEMPLATE, KEY_PLACEHOLDERS, renderKeyTemplate } from "./utils/key-template";
+import { DEFAULT_NUMBERING_TEMPLATES } from "./utils/numbering";
 
 import type PrettierPlugin from "./main";
-import type { Settings } from "./model";
+import type { ImageFormat, ImageLinkStyle, Settings, StepState, UploadProvider } from "./model";
+import type { Pipeline, StepScope } from "./pipeline";
+
+// SHA-256 of an empty file, only used to preview the key template.
+const PREVIEW_HASH = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+type UploadSection = "tencentCos" | "s3" | "aliyunOss" | "httpUpload" | "localAttachments";
 
 export class SettingsTab extends PluginSettingTab {
   private data;
+  private pipeline: Pipeline;
 
   constructor(plugin: PrettierPlugin) {
     super(plugin.app, plugin);
 
+    this.pipeline = plugin.pipeline;
+
     this.data = new Proxy<Settings>(plugin.settings, {
       get: (target, key, receiver) => {
         return Reflect.get(target, key, receiver);
@@ -43,13 +55,18 @@ export class SettingsTab extends PluginSettingTab {
     try {
       this.addFormatOnSave();
       this.addFormatOnFileChange();
+      this.addFormatOnIdle();
+      this.addFormatOnModify();
       this.addFormatCodeBlock();
       // this.addRemoveExtraSpaces();
       this.addAddTrailingSpaces();
       this.addHeaderSettings();
-      this.addTencentCosSettings();
+      this.addSteps();
+      this.addUploadSettings();
+      this.addDownloadSettings();
       this.addLanguageMappings();
       this.addFormatOptions();
+      this.addFormatOverrides();
       this.addIgnorePatterns();
     } catch (error) {
       logger("Error displaying settings tab:", error);
@@ -107,6 +124,39 @@ export class SettingsTab extends PluginSettingTab {
     );
   }
 
+  private addFormatOnIdle() {
+    this.addToggleSetting(
+      fmt("setting:format-on-idle-name"),
+      fmt("setting:format-on-idle-description"),
+      "formatOnIdle",
+    );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:format-on-idle-delay-name"))
+      .setDesc(fmt("setting:format-on-idle-delay-description"))
+      .addText(component => {
+        component.inputEl.type = "number";
+        component.inputEl.min = "500";
+        component
+          .setPlaceholder("2000")
+          .setValue(String(this.data.formatOnIdleDelay))
+          .onChange(value => {
+            const delay = parseInt(value);
+            if (Number.isNaN(delay) || delay < 500) return;
+
+            this.data.formatOnIdleDelay = delay;
+          });
+      });
+  }
+
+  private addFormatOnModify() {
+    this.addToggleSetting(
+      fmt("setting:format-on-modify-name"),
+      fmt("setting:format-on-modify-description"),
+      "formatOnModify",
+    );
+  }
+
   private addFormatCodeBlock() {
     this.addToggleSetting(
       fmt("setting:format-code-block-name"),
@@ -156,37 +206,554 @@ export class SettingsTab extends PluginSettingTab {
       fmt("setting:auto-numbering-description"),
       "autoNumbering",
     );
+    this.addHeaderNumberingSettings();
+
+    this.addToggleSetting(
+      fmt("setting:update-heading-links-name"),
+      fmt("setting:update-heading-links-description"),
+      "updateHeadingLinks",
+    );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:toc-depth-name"))
+      .setDesc(fmt("setting:toc-depth-description"))
+      .addDropdown(component =>
+        component
+          .addOptions(Object.fromEntries([1, 2, 3, 4, 5, 6].map(depth => [depth, String(depth)])))
+          .setValue(String(this.data.tocDepth))
+          .onChange(value => {
+            this.data.tocDepth = parseInt(value);
+          }),
+      );
+  }
+
+  private addHeaderNumberingSettings() {
+    const levels = Object.fromEntries([1, 2, 3, 4, 5, 6].map(level => [level, `H${level}`]));
+    const save = (value: Partial<Settings["headerNumbering"]>) => {
+      this.data.headerNumbering = { ...this.data.headerNumbering, ...value };
+    };
+    const toLines = (value: string) =>
+      value
+        .split("\n")
+        .map(line => line.trim())
+        .filter(Boolean);
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:numbering-levels-name"))
+      .setDesc(fmt("setting:numbering-levels-description"))
+      .addDropdown(component =>
+        component
+          .addOptions(levels)
+          .setValue(String(this.data.headerNumbering.startLevel))
+          .onChange(value => save({ startLevel: parseInt(value) })),
+      )
+      .addDropdown(component =>
+        component
+          .addOptions(levels)
+          .setValue(String(this.data.headerNumbering.endLevel))
+          .onChange(value => save({ endLevel: parseInt(value) })),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:numbering-separator-name"))
+      .setDesc(fmt("setting:numbering-separator-description"))
+      .addText(component =>
+        component
+          .setPlaceholder(".")
+          .setValue(this.data.headerNumbering.separator)
+          .onChange(separator => save({ separator })),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:numbering-templates-name"))
+      .setDesc(fmt("setting:numbering-templates-description"))
+      .addTextArea(component =>
+        component
+          .setPlaceholder(DEFAULT_NUMBERING_TEMPLATES.join("\n"))
+          .setValue(this.data.headerNumbering.templates.join("\n"))
+          .onChange(value => save({ templates: toLines(value) })),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:numbering-exclude-name"))
+      .setDesc(fmt("setting:numbering-exclude-description"))
+      .addTextArea(component =>
+        component
+          .setPlaceholder("References")
+          .setValue(this.data.headerNumbering.exclude.join("\n"))
+          .onChange(value => save({ exclude: toLines(value) })),
+      );
+  }
+
+  private addSteps() {
+    new Setting(this.containerEl)
+      .setName(fmt("setting:steps-name"))
+      .setDesc(fmt("setting:steps-description"))
+      .setHeading();
+
+    const steps = this.pipeline.getSteps();
+    const states = steps.map<StepState>(({ step, enabled }) => ({ id: step.id, enabled }));
+    // Keep the states of steps from plugins which are not loaded currently.
+    const rest = this.data.steps.filter(({ id }) => !states.some(state => state.id === id));
+
+    const save = (next: StepState[]) => {
+      this.data.steps = [...next, ...rest];
+      this.display();
+    };
+    const move = (from: number, to: number) => {
+      const next = [...states];
+      [next[from], next[to]] = [next[to]!, next[from]!];
+      save(next);
+    };
+
+    const scopes: Record<StepScope, string> = {
+      document: fmt("setting:step-scope-document"),
+      selection: fmt("setting:step-scope-selection"),
+      both: fmt("setting:step-scope-both"),
+    };
+
+    steps.forEach(({ step, enabled }, index) => {
+      new Setting(this.containerEl)
+        .setName(step.name)
+        .setDesc(step.description || scopes[step.scope])
+        .addExtraButton(component =>
+          component
+            .setIcon("arrow-up")
+            .setDisabled(index === 0)
+            .onClick(() => move(index, index - 1)),
+        )
+        .addExtraButton(component =>
+          component
+            .setIcon("arrow-down")
+            .setDisabled(index === steps.length - 1)
+            .onClick(() => move(index, index + 1)),
+        )
+        .addToggle(component =>
+          component.setValue(enabled).onChange(value => {
+            save(
+              states.map(state => (state.id === step.id ? { ...state, enabled: value } : state)),
+            );
+          }),
+        );
+    });
+  }
+
+  private addUploadSettings() {
+    new Setting(this.containerEl)
+      .setName(fmt("setting:upload-name"))
+      .setDesc(fmt("setting:upload-description"))
+      .setHeading();
+
+    this.addToggleSetting(
+      fmt("setting:upload-images-on-format-name"),
+      fmt("setting:upload-images-on-format-description"),
+      "uploadImagesOnFormat",
+    );
+
+    this.addUploadKeyTemplate();
+    this.addNumberSetting(
+      fmt("setting:upload-concurrency-name"),
+      fmt("setting:upload-concurrency-description"),
+      "uploadConcurrency",
+      1,
+    );
+    this.addNumberSetting(
+      fmt("setting:upload-retries-name"),
+      fmt("setting:upload-retries-description"),
+      "uploadRetries",
+      0,
+    );
+    this.addNumberSetting(
+      fmt("setting:upload-timeout-name"),
+      fmt("setting:upload-timeout-description"),
+      "uploadTimeout",
+      0,
+    );
+    this.addImageProcessingSettings();
+
+    const providers: Record<UploadProvider, { name: string; description: string }> = {
+      "tencent-cos": {
+        name: fmt("setting:tencent-cos-name"),
+        description: fmt("setting:tencent-cos-description"),
+      },
+      s3: {
+        name: fmt("setting:s3-name"),
+        description: fmt("setting:s3-description"),
+      },
+      "aliyun-oss": {
+        name: fmt("setting:aliyun-oss-name"),
+        description: fmt("setting:aliyun-oss-description"),
+      },
+      http: {
+        name: fmt("setting:http-upload-name"),
+        description: fmt("setting:http-upload-description"),
+      },
+      local: {
+        name: fmt("setting:local-attachments-name"),
+        description: fmt("setting:local-attachments-description"),
+      },
+    };
+
+    const providerSetting = new Setting(this.containerEl)
+      .setName(fmt("setting:upload-provider-name"))
+      .setDesc(providers[this.data.uploadProvider].description);
+    const containerEl = this.containerEl.createDiv();
+
+    const render = () => {
+      containerEl.empty();
+
+      switch (this.data.uploadProvider) {
+        case "tencent-cos":
+          this.addTencentCosSettings(containerEl);
+          break;
+        case "s3":
+          this.addS3Settings(containerEl);
+          break;
+        case "aliyun-oss":
+          this.addAliyunOssSettings(containerEl);
+          break;
+        case "http":
+          this.addHttpUploadSettings(containerEl);
+          break;
+        case "local":
+          this.addLocalAttachmentsSettings(containerEl);
+          break;
+      }
+    };
+
+    providerSetting.addDropdown(component =>
+      component
+        .addOptions(
+          Object.fromEntries(
+            UPLOAD_PROVIDERS.map(provider => [provider, providers[provider].name]),
+          ),
+        )
+        .setValue(this.data.uploadProvider)
+        .onChange(value => {
+          const provider = value as UploadProvider;
+          this.data.uploadProvider = provider;
+          providerSetting.setDesc(providers[provider].description);
+          render();
+        }),
+    );
+
+    render();
   }
 
-  private addTencentCosSettings() {
+  private addDownloadSettings() {
     new Setting(this.containerEl)
-      .setName(fmt("setting:tencent-cos-name"))
-      .setDesc(fmt("setting:tencent-cos-description"))
+      .setName(fmt("setting:download-name"))
+      .setDesc(fmt("setting:download-description"))
       .setHeading();
 
-    const addTextInput = (
-      name: string,
-      key: keyof typeof this.data.tencentCos,
-      placeholder?: string,
-    ) => {
-      new Setting(this.containerEl).setName(name).addText(text =>
+    new Setting(this.containerEl)
+      .setName(fmt("setting:download-folder-name"))
+      .setDesc(fmt("setting:download-folder-description"))
+      .addText(component =>
+        component
+          .setPlaceholder("attachments")
+          .setValue(this.data.imageDownload.folder)
+          .onChange(folder => {
+            this.data.imageDownload = { ...this.data.imageDownload, folder };
+          }),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:download-link-style-name"))
+      .setDesc(fmt("setting:download-link-style-description"))
+      .addDropdown(component =>
+        component
+          .addOptions({
+            wikilink: fmt("setting:download-link-style-wikilink"),
+            markdown: fmt("setting:download-link-style-markdown"),
+          })
+          .setValue(this.data.imageDownload.linkStyle)
+          .onChange(value => {
+            const linkStyle = value as ImageLinkStyle;
+            this.data.imageDownload = { ...this.data.imageDownload, linkStyle };
+          }),
+      );
+  }
+
+  private addUploadKeyTemplate() {
+    const setting = new Setting(this.containerEl).setName(fmt("setting:upload-key-template-name"));
+
+    const render = (template: string) => {
+      const key = renderKeyTemplate(template || DEFAULT_KEY_TEMPLATE, {
+        vault: this.app.vault.getName(),
+        notePath: this.app.workspace.getActiveFile()?.path || "Journal/Note.md",
+        filename: "Screenshot 1.png",
+        hash: PREVIEW_HASH,
+        date: new Date(),
+      });
+
+      setting.setDesc(
+        createFragment(el => {
+          el.appendText(fmt("setting:upload-key-template-description"));
+          KEY_PLACEHOLDERS.forEach((placeholder, index) => {
+            el.appendText(index === 0 ? " " : ", ");
+            el.createEl("code", { text: `{${placeholder}}` });
+          });
+          el.createEl("br");
+          el.appendText(fmt("setting:upload-key-template-preview"));
+          el.createEl("code", { text: key });
+        }),
+      );
+    };
+
+    setting.addText(component =>
+      component
+        .setPlaceholder(DEFAULT_KEY_TEMPLATE)
+        .setValue(this.data.uploadKeyTemplate)
+        .onChange(value => {
+          this.data.uploadKeyTemplate = value;
+          render(value);
+        }),
+    );
+
+    render(this.data.uploadKeyTemplate);
+  }
+
+  private addImageProcessingSettings() {
+    new Setting(this.containerEl)
+      .setName(fmt("setting:image-max-width-name"))
+      .setDesc(fmt("setting:image-max-width-description"))
+      .addText(component => {
+        component.inputEl.type = "number";
+        component.inputEl.min = "0";
+        component
+          .setPlaceholder("0")
+          .setValue(String(this.data.imageProcessing.maxWidth))
+          .onChange(value => {
+            const maxWidth = parseInt(value || "0");
+            if (Number.isNaN(maxWidth) || maxWidth < 0) return;
+
+            this.data.imageProcessing = { ...this.data.imageProcessing, maxWidth };
+          });
+      });
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:image-format-name"))
+      .setDesc(fmt("setting:image-format-description"))
+      .addDropdown(component =>
+        component
+          .addOptions({
+            original: fmt("setting:image-format-original"),
+            webp: "WebP",
+            avif: "AVIF",
+          })
+          .setValue(this.data.imageProcessing.format)
+          .onChange(value => {
+            const format = value as ImageFormat;
+            this.data.imageProcessing = { ...this.data.imageProcessing, format };
+          }),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:image-quality-name"))
+      .setDesc(fmt("setting:image-quality-description"))
+      .addSlider(component =>
+        component
+          .setLimits(1, 100, 1)
+          .setDynamicTooltip()
+          .setValue(this.data.imageProcessing.quality)
+          .onChange(quality => {
+            this.data.imageProcessing = { ...this.data.imageProcessing, quality };
+          }),
+      );
+
+    new Setting(this.containerEl)
+      .setName(fmt("setting:image-strip-metadata-name"))
+      .setDesc(fmt("setting:image-strip-metadata-description"))
+      .addToggle(component =>
+        component.setValue(this.data.imageProcessing.stripMetadata).onChange(stripMetadata => {
+          this.data.imageProcessing = { ...this.data.imageProcessing, stripMetadata };
+        }),
+      );
+  }
+
+  private addTencentCosSettings(containerEl: HTMLElement) {
+    const addTextInput = this.createUploadTextInput(containerEl, "tencentCos");
+    const addSecretInput = this.createUploadSecretInput(containerEl, "tencentCos");
+
+    addSecretInput(fmt("setting:tencent-cos-secret-id"), "secretId");
+    addSecretInput(fmt("setting:tencent-cos-secret-key"), "secretKey");
+    addTextInput(
+      fmt("setting:sts-endpoint-name"),
+      "stsEndpoint",
+      "https://example.com/sts",
+    ).setDesc(fmt("setting:sts-endpoint-description"));
+    addTextInput(fmt("setting:tencent-cos-bucket"), "bucket");
+    addTextInput(fmt("setting:tencent-cos-region"), "region", "ap-shanghai");
+    addTextInput(fmt("setting:tencent-cos-domain"), "domain", "https://example.com");
+  }
+
+  private addS3Settings(containerEl: HTMLElement) {
+    const addTextInput = this.createUploadTextInput(containerEl, "s3");
+    const addSecretInput = this.createUploadSecretInput(containerEl, "s3");
+
+    addTextInput(fmt("setting:s3-endpoint"), "endpoint", "http://localhost:9000");
+    addTextInput(fmt("setting:s3-region"), "region", "us-east-1");
+    addTextInput(fmt("setting:s3-bucket"), "bucket");
+    addSecretInput(fmt("setting:s3-access-key-id"), "accessKeyId");
+    addSecretInput(fmt("setting:s3-secret-access-key"), "secretAccessKey");
+    addTextInput(
+      fmt("setting:sts-endpoint-name"),
+      "stsEndpoint",
+      "https://example.com/sts",
+    ).setDesc(fmt("setting:sts-endpoint-description"));
+    addTextInput(fmt("setting:s3-domain"), "domain", "https://example.com");
+
+    new Setting(containerEl)
+      .setName(fmt("setting:s3-path-style-name"))
+      .setDesc(fmt("setting:s3-path-style-description"))
+      .addToggle(component =>
+        component.setValue(this.data.s3.pathStyle).onChange(value => {
+          this.data.s3 = { ...this.data.s3, pathStyle: value };
+        }),
+      );
+  }
+
+  private addAliyunOssSettings(containerEl: HTMLElement) {
+    const addTextInput = this.createUploadTextInput(containerEl, "aliyunOss");
+    const addSecretInput = this.createUploadSecretInput(containerEl, "aliyunOss");
+
+    addSecretInput(fmt("setting:aliyun-oss-access-key-id"), "accessKeyId");
+    addSecretInput(fmt("setting:aliyun-oss-access-key-secret"), "accessKeySecret");
+    addTextInput(
+      fmt("setting:sts-endpoint-name"),
+      "stsEndpoint",
+      "https://example.com/sts",
+    ).setDesc(fmt("setting:sts-endpoint-description"));
+    addTextInput(fmt("setting:aliyun-oss-bucket"), "bucket");
+    addTextInput(fmt("setting:aliyun-oss-region"), "region", "oss-cn-hangzhou");
+    addTextInput(fmt("setting:aliyun-oss-domain"), "domain", "https://example.com");
+  }
+
+  private addHttpUploadSettings(containerEl: HTMLElement) {
+    const addTextInput = this.createUploadTextInput(containerEl, "httpUpload");
+
+    addTextInput(
+      fmt("setting:http-upload-url-name"),
+      "url",
+      "https://example.com/upload/{key}",
+    ).setDesc(fmt("setting:http-upload-url-description"));
+
+    new Setting(containerEl).setName(fmt("setting:http-upload-method")).addDropdown(component =>
+      component
+        .addOptions({ PUT: "PUT", POST: "POST" })
+        .setValue(this.data.httpUpload.method)
+        .onChange(value => {
+          this.data.httpUpload = { ...this.data.httpUpload, method: value as "PUT" | "POST" };
+        }),
+    );
+
+    const headers = new Setting(containerEl)
+      .setName(fmt("setting:http-upload-headers-name"))
+      .setDesc(fmt("setting:http-upload-headers-description"))
+      .addTextArea(component => {
+        const setValid = (isValid: boolean) => {
+          if (isValid) {
+            component.inputEl.classList.remove("invalid");
+          } else {
+            component.inputEl.classList.add("invalid");
+          }
+        };
+
+        component
+          .setPlaceholder('{ "Authorization": "Bearer token" }')
+          .setValue(this.data.httpUpload.headers)
+          .onChange(value => {
+            try {
+              if (!isPlainObject(JSON.parse(value || "{}"))) throw new Error();
+
+              setValid(true);
+              this.data.httpUpload = { ...this.data.httpUpload, headers: value };
+            } catch {
+              setValid(false);
+            }
+          });
+        component.inputEl.autocomplete = "off";
+        component.inputEl.spellcheck = false;
+      });
+
+    // Text areas cannot be of the password type, so the text is masked by a class instead.
+    const { inputEl } = headers.components[0] as TextAreaComponent;
+    this.addRevealButton(headers, isHidden => {
+      inputEl.classList.toggle("prettier-settings__masked", isHidden);
+    });
+
+    addTextInput(fmt("setting:http-upload-field-name-name"), "fieldName", "file").setDesc(
+      fmt("setting:http-upload-field-name-description"),
+    );
+    addTextInput(fmt("setting:http-upload-response-path-name"), "responsePath", "data.url").setDesc(
+      fmt("setting:http-upload-response-path-description"),
+    );
+    addTextInput(fmt("setting:http-upload-domain-name"), "domain", "https://example.com").setDesc(
+      fmt("setting:http-upload-domain-description"),
+    );
+  }
+
+  private addLocalAttachmentsSettings(containerEl: HTMLElement) {
+    const addTextInput = this.createUploadTextInput(containerEl, "localAttachments");
+
+    addTextInput(fmt("setting:local-attachments-folder-name"), "folder", "attachments").setDesc(
+      fmt("setting:local-attachments-folder-description"),
+    );
+  }
+
+  private createUploadTextInput<K extends UploadSection>(containerEl: HTMLElement, section: K) {
+    type Key = {
+      [P in keyof Settings[K]]: Settings[K][P] extends string ? P : never;
+    }[keyof Settings[K]];
+
+    return (name: string, key: Key, placeholder?: string) =>
+      new Setting(containerEl).setName(name).addText(text =>
         text
           .setPlaceholder(placeholder || "")
-          .setValue(this.data.tencentCos?.[key] || "")
+          .setValue(String(this.data[section][key]))
           .onChange(value => {
-            this.data.tencentCos = {
-              ...this.data.tencentCos,
-              [key]: value,
-            };
+            this.data[section] = { ...this.data[section], [key]: value };
           }),
       );
+  }
+
+  /**
+   * Masked input with a button to reveal it, for secrets which are saved on this device only.
+   */
+  private createUploadSecretInput<K extends UploadSection>(containerEl: HTMLElement, section: K) {
+    const addTextInput = this.createUploadTextInput(containerEl, section);
+
+    return (name: string, key: Parameters<typeof addTextInput>[1]) => {
+      const setting = addTextInput(name, key).setDesc(fmt("setting:secret-description"));
+      const { inputEl } = setting.components[0] as TextComponent;
+      inputEl.autocomplete = "off";
+
+      return this.addRevealButton(setting, isHidden => {
+        inputEl.type = isHidden ? "password" : "text";
+      });
     };
+  }
 
-    addTextInput(fmt("setting:tencent-cos-secret-id") as string, "secretId");
-    addTextInput(fmt("setting:tencent-cos-secret-key") as string, "secretKey");
-    addTextInput(fmt("setting:tencent-cos-bucket") as string, "bucket");
-    addTextInput(fmt("setting:tencent-cos-region") as string, "region", "ap-shanghai");
-    addTextInput(fmt("setting:tencent-cos-domain") as string, "domain", "https://example.com");
+  /**
+   * Button to reveal a secret, which is hidden at first and toggled on each click.
+   */
+  private addRevealButton(setting: Setting, setHidden: (isHidden: boolean) => void) {
+    let isHidden = true;
+    setHidden(isHidden);
+
+    return setting.addExtraButton(component =>
+      component
+        .setIcon("eye")
+        .setTooltip(fmt("setting:secret-show"))
+        .onClick(() => {
+          isHidden = !isHidden;
+          setHidden(isHidden);
+          component
+            .setIcon(isHidden ? "eye" : "eye-off")
+            .setTooltip(fmt(isHidden ? "setting:secret-show" : "setting:secret-hide"));
+        }),
+    );
   }
 
   private addLanguageMappings() {
@@ -278,6 +845,20 @@ export class SettingsTab extends PluginSettingTab {
       .setValidator(value => this.parseFormatOptions(value));
   }
 
+  private addFormatOverrides() {
+    this.addResetSetting(
+      fmt("setting:format-overrides-name"),
+      fmt("setting:format-overrides-description"),
+      () => {
+        this.data.formatOverrides = [];
+      },
+    );
+
+    this.addTextArea()
+      .setValue(JSON.stringify(this.data.formatOverrides, null, 2))
+      .setValidator(value => this.parseFormatOverrides(value));
+  }
+
   private addIgnorePatterns() {
     this.addResetSetting(
       fmt("setting:ignore-patterns-name"),
@@ -309,6 +890,27 @@ export class SettingsTab extends PluginSettingTab {
       );
   }
 
+  private addNumberSetting(
+    name: string | DocumentFragment,
+    description: string | DocumentFragment,
+    key: { [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings],
+    min: number,
+  ) {
+    return new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(description)
+      .addText(component => {
+        component.inputEl.type = "number";
+        component.inputEl.min = String(min);
+        component.setValue(String(this.data[key])).onChange(value => {
+          const number = parseInt(value);
+          if (Number.isNaN(number) || number < min) return;
+
+          this.data[key] = number;
+        });
+      });
+  }
+
   private addResetSetting(
     name: string | DocumentFragment,
     description: string | DocumentFragment,
@@ -365,4 +967,25 @@ export class SettingsTab extends PluginSettingTab {
       return false;
     }
   }
+
+  private parseFormatOverrides(text: string) {
+    try {
+      const overrides: unknown = JSON.parse(text);
+      const isValid =
+        Array.isArray(overrides) &&
+        overrides.every(
+          override =>
+            isPlainObject(override) &&
+            (isString(override.files) || Array.isArray(override.files)) &&
+            isPlainObject(override.options),
+        );
+      if (!isValid) return false;
+
+      this.data.formatOverrides = overrides;
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
@@ -0,0 +1,55 @@
+import type PrettierPlugin from "./main";
+import type { UploadCacheEntry, UploadProvider } from "./model";
+
+/**
+ * Uploaded images keyed by the hash of their bytes, so the same image is uploaded only once per
+ * provider. Persisted in the plugin data.
+ */
+export class UploadCache {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  get(provider: UploadProvider, hash: string) {
+    return this.plugin.uploadCache[this.getKey(provider, hash)]?.url ?? null;
+  }
+
+  /**
+   * Saves are debounced, since images are cached one by one while they are uploaded concurrently.
+   */
+  set(provider: UploadProvider, hash: string, url: string) {
+    this.plugin.uploadCache[this.getKey(provider, hash)] = {
+      provider,
+      hash,
+      url,
+      time: Date.now(),
+    };
+
+    this.plugin.requestSave();
+  }
+
+  async delete(provider: UploadProvider, hash: string) {
+    delete this.plugin.uploadCache[this.getKey(provider, hash)];
+
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * Entries from the newest to the oldest.
+   */
+  entries(): UploadCacheEntry[] {
+    return Object.values(this.plugin.uploadCache).toSorted((a, b) => b.time - a.time);
+  }
+
+  async clear() {
+    this.plugin.uploadCache = {};
+
+    await this.plugin.saveSettings();
+  }
+
+  private getKey(provider: UploadProvider, hash: string) {
+    return `${provider}:${hash}`;
+  }
+}
@@ -0,0 +1,46 @@
+import type PrettierPlugin from "./main";
+import type { UploadedObject, UploadProvider } from "./model";
+
+/**
+ * Objects uploaded to remote providers, so the ones no longer referenced by any note can be found
+ * and deleted. Persisted in the plugin data.
+ */
+export class UploadRecords {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Saves are debounced, since objects are recorded one by one while they are uploaded
+   * concurrently.
+   */
+  add(record: Omit<UploadedObject, "time">) {
+    this.plugin.uploadedObjects[this.getKey(record.provider, record.key)] = {
+      ...record,
+      time: Date.now(),
+    };
+
+    this.plugin.requestSave();
+  }
+
+  async delete(records: UploadedObject[]) {
+    for (const { provider, key } of records) {
+      delete this.plugin.uploadedObjects[this.getKey(provider, key)];
+    }
+
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * Records from the newest to the oldest.
+   */
+  entries(): UploadedObject[] {
+    return Object.values(this.plugin.uploadedObjects).toSorted((a, b) => b.time - a.time);
+  }
+
+  private getKey(provider: UploadProvider, key: string) {
+    return `${provider}:${key}`;
+  }
+}
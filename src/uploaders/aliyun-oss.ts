@@ -0,0 +1,86 @@
+import { hmac, toBase64 } from "@/utils/crypto";
+
+import { getCredentials } from "./credentials";
+import { encodeKey, isUnderUrl, joinUrl, sendRequest } from "./uploader";
+
+import type { Uploader, UploadRequest } from "./uploader";
+import type PrettierPlugin from "@/main";
+
+/**
+ * Aliyun Object Storage Service, signed with the header based signature of version 1. See
+ * https://help.aliyun.com/zh/oss/developer-reference/include-signatures-in-the-authorization-header
+ */
+export class AliyunOssUploader implements Uploader {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get settings() {
+    return this.plugin.settings.aliyunOss;
+  }
+
+  private get endpoint() {
+    const { bucket, region } = this.settings;
+    // Both `cn-hangzhou` and `oss-cn-hangzhou` are accepted
+    const host = region.startsWith("oss-") ? region : `oss-${region}`;
+
+    return `https://${bucket}.${host}.aliyuncs.com`;
+  }
+
+  isConfigured() {
+    const { accessKeyId, accessKeySecret, stsEndpoint, bucket, region } = this.settings;
+
+    return Boolean((stsEndpoint || (accessKeyId && accessKeySecret)) && bucket && region);
+  }
+
+  isUploaded(url: string) {
+    return isUnderUrl(url, this.settings.domain) || isUnderUrl(url, this.endpoint);
+  }
+
+  async upload({ key, body, contentType }: UploadRequest) {
+    const { domain } = this.settings;
+    const url = joinUrl(this.endpoint, encodeKey(key));
+
+    await sendRequest(
+      {
+        url,
+        method: "PUT",
+        headers: { ...(await this.sign("PUT", key, contentType)), "Content-Type": contentType },
+        body,
+      },
+      "Aliyun OSS",
+    );
+
+    return domain ? joinUrl(domain, encodeKey(key)) : url;
+  }
+
+  async delete(key: string) {
+    const url = joinUrl(this.endpoint, encodeKey(key));
+
+    await sendRequest(
+      { url, method: "DELETE", headers: await this.sign("DELETE", key, "") },
+      "Aliyun OSS",
+    );
+  }
+
+  private async sign(method: string, key: string, contentType: string) {
+    const { accessKeyId, accessKeySecret, stsEndpoint, bucket } = this.settings;
+    const date = new Date().toUTCString();
+    const credentials = await getCredentials(stsEndpoint, accessKeyId, accessKeySecret);
+
+    // The security token is the only `x-oss-` header to canonicalize
+    const token = credentials.sessionToken;
+    const ossHeaders = token ? `x-oss-security-token:${token}\n` : "";
+    const resource = `${ossHeaders}/${bucket}/${key}`;
+    const stringToSign = [method, "", contentType, date, resource].join("\n");
+    const signature = toBase64(await hmac("SHA-1", credentials.secretAccessKey, stringToSign));
+
+    return {
+      Authorization: `OSS ${credentials.accessKeyId}:${signature}`,
+      Date: date,
+      ...(token ? { "x-oss-security-token": token } : {}),
+    };
+  }
+}
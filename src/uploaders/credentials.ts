@@ -0,0 +1,135 @@
+import { isPlainObject } from "@goodbyenjn/utils/remeda";
+import { requestUrl } from "obsidian";
+
+import { HttpError } from "./uploader";
+
+import type { RequestUrlResponse } from "obsidian";
+
+export interface Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /**
+   * Session token of temporary credentials, sent along with the signed request.
+   */
+  sessionToken?: string;
+}
+
+interface TemporaryCredentials {
+  credentials: Credentials;
+  /**
+   * Time in milliseconds, `0` if the endpoint does not tell.
+   */
+  expiration: number;
+}
+
+// Fetch new credentials this long before the old ones expire, so uploads in progress still work.
+const EXPIRATION_MARGIN = 60 * 1000;
+
+const cache = new Map<string, { promise: Promise<TemporaryCredentials>; expiration: number }>();
+
+const pick = (object: Record<string, unknown>, names: string[]) => {
+  const entry = Object.entries(object).find(([key]) => names.includes(key.toLowerCase()));
+  const value = entry?.[1];
+
+  return typeof value === "string" || typeof value === "number" ? String(value) : "";
+};
+
+/**
+ * Read temporary credentials from the JSON response of an STS endpoint. Responses of Tencent Cloud
+ * STS, AWS STS and Aliyun STS are accepted, with or without the wrapping `Response` and
+ * `Credentials` objects, e.g. `{ "Credentials": { "AccessKeyId": "", "SecretAccessKey": "",
+ * "SessionToken": "", "Expiration": "2024-01-01T00:00:00Z" } }`.
+ */
+export const parseCredentials = (json: unknown): TemporaryCredentials => {
+  const response = isPlainObject(json) && isPlainObject(json.Response) ? json.Response : json;
+  if (!isPlainObject(response)) {
+    throw new Error("Invalid response from the STS endpoint.");
+  }
+
+  const nested = Object.entries(response).find(([key]) => key.toLowerCase() === "credentials")?.[1];
+  const credentials = isPlainObject(nested) ? nested : response;
+
+  const accessKeyId = pick(credentials, ["accesskeyid", "tmpsecretid"]);
+  const secretAccessKey = pick(credentials, ["secretaccesskey", "accesskeysecret", "tmpsecretkey"]);
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error("No credentials in the response from the STS endpoint.");
+  }
+
+  const sessionToken = pick(credentials, ["sessiontoken", "securitytoken", "token"]);
+  // Unix time in seconds for Tencent Cloud, ISO 8601 for the others
+  const expiredTime = Number(pick(response, ["expiredtime"]));
+  const expiration = expiredTime
+    ? expiredTime * 1000
+    : Date.parse(pick({ ...response, ...credentials }, ["expiration"])) || 0;
+
+  return {
+    credentials: { accessKeyId, secretAccessKey, ...(sessionToken ? { sessionToken } : {}) },
+    expiration,
+  };
+};
+
+const fetchCredentials = async (endpoint: string) => {
+  let response: RequestUrlResponse;
+  try {
+    response = await requestUrl({ url: endpoint, throw: false });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    throw new HttpError(`Failed to fetch temporary credentials: ${reason}.`, 0);
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpError(
+      `Failed to fetch temporary credentials with status: ${response.status}.`,
+      response.status,
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = response.json;
+  } catch {
+    json = null;
+  }
+
+  return parseCredentials(json);
+};
+
+/**
+ * Get temporary credentials from the STS endpoint, cached until shortly before they expire.
+ * Credentials without an expiration are fetched again for every upload.
+ */
+export const getTemporaryCredentials = async (endpoint: string) => {
+  let entry = cache.get(endpoint);
+  if (!entry || entry.expiration - EXPIRATION_MARGIN <= Date.now()) {
+    // Concurrent uploads share the pending request, which does not expire until it is settled
+    const next = { promise: fetchCredentials(endpoint), expiration: Infinity };
+    next.promise.then(
+      ({ expiration }) => {
+        next.expiration = expiration;
+      },
+      () => {
+        if (cache.get(endpoint) === next) {
+          cache.delete(endpoint);
+        }
+      },
+    );
+
+    cache.set(endpoint, next);
+    entry = next;
+  }
+
+  const { credentials } = await entry.promise;
+
+  return credentials;
+};
+
+/**
+ * Credentials from the STS endpoint if it is set, otherwise the long-term keys in the settings.
+ */
+export const getCredentials = async (
+  stsEndpoint: string,
+  accessKeyId: string,
+  secretAccessKey: string,
+): Promise<Credentials> =>
+  stsEndpoint ? getTemporaryCredentials(stsEndpoint) : { accessKeyId, secretAccessKey };
@@ -0,0 +1,108 @@
+import { isPlainObject, isString } from "@goodbyenjn/utils/remeda";
+
+import { encodeKey, isUnderUrl, joinUrl, sendRequest } from "./uploader";
+
+import type { Uploader, UploadRequest } from "./uploader";
+import type PrettierPlugin from "@/main";
+
+const KEY_PLACEHOLDER = "{key}";
+
+const createMultipartBody = (fieldName: string, { key, body, contentType }: UploadRequest) => {
+  const boundary = `----PrettierFormBoundary${Date.now().toString(16)}`;
+  const filename = key.slice(key.lastIndexOf("/") + 1).replace(/"/g, "%22");
+
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${fieldName}"; filename="${filename}"\r\n` +
+      `Content-Type: ${contentType}\r\n\r\n`,
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const bytes = new Uint8Array(head.byteLength + body.byteLength + tail.byteLength);
+  bytes.set(head, 0);
+  bytes.set(new Uint8Array(body), head.byteLength);
+  bytes.set(tail, head.byteLength + body.byteLength);
+
+  return { body: bytes.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+};
+
+/**
+ * Get the value at the dot separated path, e.g. `data.url` or `files.0.url`.
+ */
+const getByPath = (value: unknown, path: string) =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (result, segment) =>
+        isPlainObject(result) || Array.isArray(result)
+          ? (result as Record<string, unknown>)[segment]
+          : undefined,
+      value,
+    );
+
+/**
+ * A generic HTTP endpoint. With `PUT`, the image is sent as the request body to the URL, in which
+ * `{key}` is replaced with the object key. With `POST`, the image is sent as a multipart form.
+ */
+export class HttpUploader implements Uploader {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get settings() {
+    return this.plugin.settings.httpUpload;
+  }
+
+  isConfigured() {
+    return Boolean(this.settings.url);
+  }
+
+  isUploaded(url: string) {
+    const { url: uploadUrl, domain } = this.settings;
+    const base = uploadUrl.includes(KEY_PLACEHOLDER) ? uploadUrl.split(KEY_PLACEHOLDER)[0]! : "";
+
+    return isUnderUrl(url, domain) || isUnderUrl(url, base);
+  }
+
+  async upload(request: UploadRequest) {
+    const { method, fieldName, responsePath, domain } = this.settings;
+    const url = this.settings.url.replace(KEY_PLACEHOLDER, encodeKey(request.key));
+
+    const { body, contentType } =
+      method === "POST"
+        ? createMultipartBody(fieldName || "file", request)
+        : { body: request.body, contentType: request.contentType };
+
+    const response = await sendRequest(
+      { url, method, headers: this.parseHeaders(), contentType, body },
+      url,
+    );
+
+    if (responsePath) {
+      const result = getByPath(response.json, responsePath);
+      if (!isString(result) || !result) {
+        throw new Error(`No URL found at path: ${responsePath} in the response.`);
+      }
+
+      return result;
+    }
+
+    if (domain) {
+      return joinUrl(domain, encodeKey(request.key));
+    }
+
+    return method === "PUT" ? url : response.text.trim();
+  }
+
+  private parseHeaders(): Record<string, string> {
+    const headers: unknown = JSON.parse(this.settings.headers || "{}");
+    if (!isPlainObject(headers)) {
+      throw new Error("Headers must be a JSON object.");
+    }
+
+    return Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, String(value)]));
+  }
+}
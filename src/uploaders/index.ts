@@ -0,0 +1,28 @@
+import { AliyunOssUploader } from "./aliyun-oss";
+import { HttpUploader } from "./http";
+import { LocalUploader } from "./local";
+import { S3Uploader } from "./s3";
+import { TencentCosUploader } from "./tencent-cos";
+
+import type { Uploader } from "./uploader";
+import type PrettierPlugin from "@/main";
+import type { UploadProvider } from "@/model";
+
+export type { Uploader, UploadRequest } from "./uploader";
+export { isRemoteUrl, isTransientError, toLinkpath } from "./uploader";
+
+const uploaders: Record<UploadProvider, new (plugin: PrettierPlugin) => Uploader> = {
+  "tencent-cos": TencentCosUploader,
+  s3: S3Uploader,
+  "aliyun-oss": AliyunOssUploader,
+  http: HttpUploader,
+  local: LocalUploader,
+};
+
+export const UPLOAD_PROVIDERS = Object.keys(uploaders) as UploadProvider[];
+
+/**
+ * Create the uploader of the provider selected in the settings.
+ */
+export const createUploader = (plugin: PrettierPlugin, provider = plugin.settings.uploadProvider) =>
+  new uploaders[provider](plugin);
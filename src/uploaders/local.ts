@@ -0,0 +1,59 @@
+import { normalizePath } from "obsidian";
+
+import { getAvailablePath } from "@/utils/file";
+
+import { isRemoteUrl, toLinkpath } from "./uploader";
+
+import type { Uploader, UploadRequest } from "./uploader";
+import type PrettierPlugin from "@/main";
+
+/**
+ * Copy images into a folder in the vault. Without a folder, the attachment folder configured in
+ * Obsidian is used, and only remote images are copied.
+ */
+export class LocalUploader implements Uploader {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get folder() {
+    const { folder } = this.plugin.settings.localAttachments;
+
+    return folder.trim() ? normalizePath(folder) : "";
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  isUploaded(url: string, sourcePath: string) {
+    if (isRemoteUrl(url)) return false;
+    if (!this.folder) return true;
+
+    const file = this.plugin.app.metadataCache.getFirstLinkpathDest(toLinkpath(url), sourcePath);
+
+    return !file || file.path.startsWith(`${this.folder}/`);
+  }
+
+  async upload({ key, body, file }: UploadRequest) {
+    const { vault, fileManager } = this.plugin.app;
+    const filename = key.slice(key.lastIndexOf("/") + 1);
+
+    let path: string;
+    if (this.folder) {
+      if (!vault.getAbstractFileByPath(this.folder)) {
+        await vault.createFolder(this.folder);
+      }
+
+      path = getAvailablePath(vault, normalizePath(`${this.folder}/${filename}`));
+    } else {
+      path = await fileManager.getAvailablePathForAttachment(filename, file.path);
+    }
+
+    const created = await vault.createBinary(path, body);
+
+    return encodeURI(created.path);
+  }
+}
@@ -0,0 +1,153 @@
+import { hmac, sha256Hex, toHex } from "@/utils/crypto";
+
+import { getCredentials } from "./credentials";
+import { encodeKey, encodeRfc3986, isUnderUrl, joinUrl, sendRequest } from "./uploader";
+
+import type { Uploader, UploadRequest } from "./uploader";
+import type PrettierPlugin from "@/main";
+
+interface SignOptions {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}
+
+/**
+ * Sign the request with AWS Signature Version 4, returns the headers to send including the
+ * `Authorization` header. See https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+export const signRequest = async (options: SignOptions) => {
+  const { method, url, headers, payloadHash, region, accessKeyId, secretAccessKey } = options;
+  const { host, pathname, searchParams } = new URL(url);
+
+  // e.g. 20130524T000000Z
+  const datetime = (options.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const scope = `${datetime.slice(0, 8)}/${region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+    ),
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": datetime,
+  };
+  const names = [...Object.keys(signed), "host"].sort();
+  const canonicalHeaders = names
+    .map(name => `${name}:${(name === "host" ? host : signed[name]!).trim()}\n`)
+    .join("");
+  const signedHeaders = names.join(";");
+  const canonicalQuery = [...searchParams]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    method,
+    pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    datetime,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let signingKey = await hmac("SHA-256", `AWS4${secretAccessKey}`, datetime.slice(0, 8));
+  for (const part of [region, "s3", "aws4_request"]) {
+    signingKey = await hmac("SHA-256", signingKey, part);
+  }
+  const signature = toHex(await hmac("SHA-256", signingKey, stringToSign));
+
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+};
+
+/**
+ * Amazon S3 and S3 compatible storage, such as MinIO and Cloudflare R2.
+ */
+export class S3Uploader implements Uploader {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get settings() {
+    return this.plugin.settings.s3;
+  }
+
+  private get endpoint() {
+    const { endpoint, region, bucket, pathStyle } = this.settings;
+    const url = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+
+    if (pathStyle) {
+      return joinUrl(url.origin, bucket);
+    }
+
+    return `${url.protocol}//${bucket}.${url.host}`;
+  }
+
+  isConfigured() {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey, stsEndpoint } = this.settings;
+
+    return Boolean(
+      (endpoint || region) && bucket && (stsEndpoint || (accessKeyId && secretAccessKey)),
+    );
+  }
+
+  isUploaded(url: string) {
+    return isUnderUrl(url, this.settings.domain) || isUnderUrl(url, this.endpoint);
+  }
+
+  async upload({ key, body, contentType }: UploadRequest) {
+    const { domain } = this.settings;
+    const url = joinUrl(this.endpoint, encodeKey(key));
+
+    const headers = await this.sign("PUT", url, { "content-type": contentType }, body);
+    await sendRequest({ url, method: "PUT", headers, body }, "S3");
+
+    return domain ? joinUrl(domain, encodeKey(key)) : url;
+  }
+
+  async delete(key: string) {
+    const url = joinUrl(this.endpoint, encodeKey(key));
+
+    const headers = await this.sign("DELETE", url, {}, new ArrayBuffer(0));
+    await sendRequest({ url, method: "DELETE", headers }, "S3");
+  }
+
+  private async sign(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body: ArrayBuffer,
+  ) {
+    const { region, accessKeyId, secretAccessKey, stsEndpoint } = this.settings;
+    const credentials = await getCredentials(stsEndpoint, accessKeyId, secretAccessKey);
+
+    return signRequest({
+      method,
+      url,
+      headers: {
+        ...headers,
+        ...(credentials.sessionToken ? { "x-amz-security-token": credentials.sessionToken } : {}),
+      },
+      payloadHash: await sha256Hex(body),
+      // Cloudflare R2 and most self-hosted storages accept any region
+      region: region || "us-east-1",
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import COS from "cos-js-sdk-v5";
+
+import { getCredentials } from "./credentials";
+import { encodeKey, isUnderUrl, joinUrl, sendRequest } from "./uploader";
+
+import type { Uploader, UploadRequest } from "./uploader";
+import type PrettierPlugin from "@/main";
+
+export class TencentCosUploader implements Uploader {
+  private plugin: PrettierPlugin;
+
+  constructor(plugin: PrettierPlugin) {
+    this.plugin = plugin;
+  }
+
+  private get settings() {
+    return this.plugin.settings.tencentCos;
+  }
+
+  private get endpoint() {
+    const { bucket, region } = this.settings;
+
+    return `https://${bucket}.cos.${region}.myqcloud.com`;
+  }
+
+  isConfigured() {
+    const { secretId, secretKey, stsEndpoint, bucket, region } = this.settings;
+
+    return Boolean((stsEndpoint || (secretId && secretKey)) && bucket && region);
+  }
+
+  isUploaded(url: string) {
+    return isUnderUrl(url, this.settings.domain) || isUnderUrl(url, this.endpoint);
+  }
+
+  async upload({ key, body, contentType }: UploadRequest) {
+    const { domain } = this.settings;
+
+    await sendRequest(
+      {
+        url: joinUrl(this.endpoint, encodeKey(key)),
+        method: "PUT",
+        headers: await this.sign("put", key),
+        contentType,
+        body,
+      },
+      "Tencent COS",
+    );
+
+    return joinUrl(domain || this.endpoint, encodeKey(key));
+  }
+
+  async delete(key: string) {
+    await sendRequest(
+      {
+        url: joinUrl(this.endpoint, encodeKey(key)),
+        method: "DELETE",
+        headers: await this.sign("delete", key),
+      },
+      "Tencent COS",
+    );
+  }
+
+  private async sign(method: "put" | "delete", key: string) {
+    const { secretId, secretKey, stsEndpoint } = this.settings;
+    const credentials = await getCredentials(stsEndpoint, secretId, secretKey);
+
+    // The signature is calculated over the decoded path
+    const authorization = COS.getAuthorization({
+      SecretId: credentials.accessKeyId,
+      SecretKey: credentials.secretAccessKey,
+      Method: method,
+      Key: key,
+      Pathname: `/${key}`,
+    });
+
+    return {
+      Authorization: authorization,
+      ...(credentials.sessionToken ? { "x-cos-security-token": credentials.sessionToken } : {}),
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import { requestUrl } from "obsidian";
+
+import type { RequestUrlParam, RequestUrlResponse, TFile } from "obsidian";
+
+export interface UploadRequest {
+  /**
+   * Object key, or file name for providers without keys, e.g. `obsidian/1700000000000_image.png`.
+   */
+  key: string;
+  body: ArrayBuffer;
+  contentType: string;
+  /**
+   * The note which embeds the image.
+   */
+  file: TFile;
+}
+
+export interface Uploader {
+  /**
+   * Whether the required settings are filled in, images are not uploaded otherwise.
+   */
+  isConfigured: () => boolean;
+  /**
+   * Whether the image link already points to the storage of this provider.
+   */
+  isUploaded: (url: string, sourcePath: string) => boolean;
+  /**
+   * Upload the image and return the link to replace the original one with.
+   */
+  upload: (request: UploadRequest) => Promise<string>;
+  /**
+   * Delete the uploaded object, only supported by object storage providers.
+   */
+  delete?: (key: string) => Promise<void>;
+}
+
+export const isRemoteUrl = (url: string) => /^https?:\/\//i.test(url);
+
+/**
+ * Join a base URL and a key, the base URL may or may not end with a slash.
+ */
+export const joinUrl = (base: string, key: string) => `${base.replace(/\/+$/, "")}/${key}`;
+
+/**
+ * Like `encodeURIComponent`, but also encodes `!'()*` as required by most storage services.
+ */
+export const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+/**
+ * Encode each segment of the key, keeping the slashes.
+ */
+export const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+/**
+ * Whether the URL starts with the base URL, ignoring the protocol and a trailing slash.
+ */
+export const isUnderUrl = (url: string, base: string) => {
+  if (!base) return false;
+
+  const strip = (value: string) => value.replace(/^https?:\/\//i, "").replace(/\/+$/, "");
+
+  return strip(url).startsWith(`${strip(base)}/`);
+};
+
+/**
+ * Get the path of a local image link, without the subpath and query, e.g. `image%201.png#x` to
+ * `image 1.png`.
+ */
+export const toLinkpath = (url: string) => {
+  const path = url.split("#")[0]!.split("?")[0]!;
+
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+};
+
+/**
+ * Error of a failed request to the provider, `status` is `0` when no response is received, e.g. offline.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+/**
+ * Whether the request may succeed when sent again: no response, timeouts, rate limits and server
+ * errors.
+ */
+export const isTransientError = (error: unknown) =>
+  error instanceof HttpError &&
+  (error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500);
+
+/**
+ * Send the request with `requestUrl` to bypass CORS, and throw an `HttpError` if it fails.
+ */
+export const sendRequest = async (request: RequestUrlParam, target: string) => {
+  let response: RequestUrlResponse;
+  try {
+    response = await requestUrl({ ...request, throw: false });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    throw new HttpError(`Request to ${target} failed: ${reason}.`, 0);
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpError(
+      `Request to ${target} failed with status: ${response.status}.`,
+      response.status,
+    );
+  }
+
+  return response;
+};
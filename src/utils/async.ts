@@ -0,0 +1,70 @@
+export interface RetryOptions {
+  /**
+   * Number of retries after the first attempt.
+   */
+  retries: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled for each following retry.
+   */
+  delay: number;
+  shouldRetry: (error: unknown) => boolean;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run the task for each item, with at most `limit` tasks running at once. Results are in the
+ * order of the items.
+ */
+export const mapConcurrent = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+) => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!, index);
+    }
+  };
+
+  const size = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: size }, worker));
+
+  return results;
+};
+
+/**
+ * Run the task again with exponential backoff while it fails with a retryable error.
+ */
+export const retry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions) => {
+  const { retries, delay, shouldRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+
+      await wait(delay * 2 ** attempt);
+    }
+  }
+};
+
+/**
+ * Reject if the promise is not settled in time. The promise itself keeps running, since requests
+ * cannot be aborted.
+ */
+export const withTimeout = <T>(promise: Promise<T>, timeout: number, message: string) => {
+  if (timeout <= 0) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeout);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+};
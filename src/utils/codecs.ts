@@ -0,0 +1,89 @@
+import avifFactory from "@jsquash/avif/codec/enc/avif_enc.js";
+import avifWasm from "@jsquash/avif/codec/enc/avif_enc.wasm";
+import { defaultOptions as avifDefaults } from "@jsquash/avif/meta.js";
+import webpFactory from "@jsquash/webp/codec/enc/webp_enc.js";
+import webpWasm from "@jsquash/webp/codec/enc/webp_enc.wasm";
+import { defaultOptions as webpDefaults } from "@jsquash/webp/meta.js";
+
+import type { ImageFormat } from "@/model";
+
+export type EncodableFormat = Exclude<ImageFormat, "original">;
+
+export interface Pixels {
+  data: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+interface Encoder {
+  encode(
+    data: BufferSource,
+    width: number,
+    height: number,
+    options: object,
+  ): Uint8Array<ArrayBuffer> | null;
+}
+
+type EncoderFactory = (options: {
+  noInitialRun: boolean;
+  instantiateWasm: (
+    imports: WebAssembly.Imports,
+    callback: (instance: WebAssembly.Instance) => void,
+  ) => object;
+}) => Promise<Encoder>;
+
+interface Codec {
+  factory: EncoderFactory;
+  wasm: Uint8Array<ArrayBuffer>;
+}
+
+const CODECS: Record<EncodableFormat, Codec> = {
+  webp: { factory: webpFactory as EncoderFactory, wasm: webpWasm },
+  avif: { factory: avifFactory as EncoderFactory, wasm: avifWasm },
+};
+
+// Encoders are instantiated on first use and shared by the following images.
+const encoders = new Map<EncodableFormat, Promise<Encoder>>();
+
+/**
+ * Instantiate the module asynchronously, since Chromium does not compile large modules
+ * synchronously on the main thread.
+ */
+const instantiate = ({ factory, wasm }: Codec) =>
+  new Promise<Encoder>((resolve, reject) => {
+    factory({
+      noInitialRun: true,
+      instantiateWasm: (imports, callback) => {
+        WebAssembly.instantiate(wasm, imports).then(({ instance }) => callback(instance), reject);
+
+        return {};
+      },
+    }).then(resolve, reject);
+  });
+
+const getEncoder = (format: EncodableFormat) => {
+  let encoder = encoders.get(format);
+  if (!encoder) {
+    encoder = instantiate(CODECS[format]);
+    encoders.set(format, encoder);
+  }
+
+  return encoder;
+};
+
+export const isEncodable = (format: string): format is EncodableFormat => format in CODECS;
+
+/**
+ * Encode the pixels to WebP or AVIF with the WASM builds of libwebp and libavif bundled with the
+ * plugin, since the canvas of Obsidian cannot encode AVIF. Quality is from 1 to 100.
+ */
+export const encodePixels = async (pixels: Pixels, format: EncodableFormat, quality: number) => {
+  const encoder = await getEncoder(format);
+  const options = format === "webp" ? { ...webpDefaults, quality } : { ...avifDefaults, quality };
+
+  const { data, width, height } = pixels;
+  const result = encoder.encode(new Uint8Array(data.buffer), width, height, options);
+  if (!result) throw new Error(`Failed to encode the image to ${format.toUpperCase()}.`);
+
+  return result;
+};
@@ -19,6 +19,27 @@ export const showNotice = (message: string | DocumentFragment, duration?: number
   return notice;
 };
 
+/**
+ * Show a notice which stays until hidden, with a button to cancel the running task.
+ */
+export const showProgressNotice = (onCancel: () => void) => {
+  const notice = showNotice("", 0);
+
+  const setMessage = (message: string) => {
+    notice.setMessage(
+      createFragment(el => {
+        el.appendText(message);
+        el.createEl("button", {
+          text: fmt("notice:batch-cancel-button-name"),
+          cls: "prettier-notice__button",
+        }).addEventListener("click", onCancel);
+      }),
+    );
+  };
+
+  return { setMessage, hide: () => notice.hide() };
+};
+
 export const withPerfNotice = async (fn: () => void | Promise<void>) => {
   const stop = timer();
 
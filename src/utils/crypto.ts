@@ -0,0 +1,35 @@
+type Data = string | ArrayBuffer | Uint8Array;
+
+const encoder = new TextEncoder();
+
+// `crypto.subtle` only takes bytes over an `ArrayBuffer`, so other views are copied into one.
+const toBytes = (data: Data): Uint8Array<ArrayBuffer> => {
+  if (typeof data === "string") return encoder.encode(data);
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+
+  return data.buffer instanceof ArrayBuffer
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+};
+
+export const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, "0")).join("");
+
+export const toBase64 = (buffer: ArrayBuffer) =>
+  btoa(Array.from(new Uint8Array(buffer), byte => String.fromCharCode(byte)).join(""));
+
+export const sha256 = (data: Data) => crypto.subtle.digest("SHA-256", toBytes(data));
+
+export const sha256Hex = async (data: Data) => toHex(await sha256(data));
+
+export const hmac = async (hash: "SHA-1" | "SHA-256", key: Data, data: Data) => {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    toBytes(key),
+    { name: "HMAC", hash },
+    false,
+    ["sign"],
+  );
+
+  return crypto.subtle.sign("HMAC", cryptoKey, toBytes(data));
+};
@@ -0,0 +1,240 @@
+import type { MagicString } from "./string";
+
+export interface Hunk {
+  /**
+   * Start offset of the replaced text in the original string.
+   */
+  start: number;
+  /**
+   * End offset of the replaced text in the original string.
+   */
+  end: number;
+  /**
+   * Index of the first replaced line in the original string.
+   */
+  line: number;
+  removed: string[];
+  added: string[];
+}
+
+type Operation = "equal" | "delete" | "insert";
+
+/**
+ * Split text into lines, keeping the line breaks, so that joining them gives back the same text.
+ */
+export const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+interface Range {
+  /**
+   * Start and end of the lines in `a`.
+   */
+  aStart: number;
+  aEnd: number;
+  /**
+   * Start and end of the lines in `b`.
+   */
+  bStart: number;
+  bEnd: number;
+}
+
+interface Snake {
+  /**
+   * Start of the diagonal in `a` and `b`.
+   */
+  x: number;
+  y: number;
+  /**
+   * End of the diagonal in `a` and `b`.
+   */
+  u: number;
+  v: number;
+}
+
+/**
+ * Find the middle snake of the shortest edit script of the lines in the range, i.e. the diagonal
+ * where the paths searched forward from the start and backward from the end overlap. Both sides
+ * of the range must be non-empty.
+ */
+const findMiddleSnake = (a: string[], b: string[], range: Range): Snake => {
+  const { aStart, aEnd, bStart, bEnd } = range;
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const isOdd = (delta & 1) === 1;
+  const max = Math.ceil((n + m) / 2);
+  const base = max + 1;
+
+  // Furthest `x` reached on each diagonal, searching forward from the start and backward from
+  // the end.
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[base + k - 1]! < forward[base + k + 1]!)
+          ? forward[base + k + 1]!
+          : forward[base + k - 1]! + 1;
+      let y = x - k;
+      const start = { x: aStart + x, y: bStart + y };
+
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+
+      forward[base + k] = x;
+
+      // The backward paths are one step shorter here, so they reach the diagonals up to `d - 1`.
+      const c = delta - k;
+      if (isOdd && c >= 1 - d && c <= d - 1 && x + backward[base + c]! >= n) {
+        return { ...start, u: aStart + x, v: bStart + y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      let x =
+        c === -d || (c !== d && backward[base + c - 1]! < backward[base + c + 1]!)
+          ? backward[base + c + 1]!
+          : backward[base + c - 1]! + 1;
+      let y = x - c;
+      const end = { u: aEnd - x, v: bEnd - y };
+
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+
+      backward[base + c] = x;
+
+      const k = delta - c;
+      if (!isOdd && k >= -d && k <= d && x + forward[base + k]! >= n) {
+        return { x: aEnd - x, y: bEnd - y, ...end };
+      }
+    }
+  }
+
+  throw new Error("Failed to find the middle snake.");
+};
+
+/**
+ * Myers' diff algorithm, returns the operations needed to turn `a` into `b`. The linear space
+ * variant is used, which splits the lines at the middle snake and diffs both halves recursively,
+ * so long documents with many changes do not need quadratic memory.
+ */
+const myers = (a: string[], b: string[]) => {
+  const operations: Operation[] = [];
+
+  const push = (operation: Operation, count: number) => {
+    for (let i = 0; i < count; i++) {
+      operations.push(operation);
+    }
+  };
+
+  const diff = (range: Range) => {
+    let { aStart, aEnd, bStart, bEnd } = range;
+
+    const start = aStart;
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+      aStart++;
+      bStart++;
+    }
+
+    const end = aEnd;
+    while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+      aEnd--;
+      bEnd--;
+    }
+
+    push("equal", aStart - start);
+
+    if (aStart === aEnd || bStart === bEnd) {
+      push("delete", aEnd - aStart);
+      push("insert", bEnd - bStart);
+    } else {
+      const { x, y, u, v } = findMiddleSnake(a, b, { aStart, aEnd, bStart, bEnd });
+
+      diff({ aStart, aEnd: x, bStart, bEnd: y });
+      push("equal", u - x);
+      diff({ aStart: u, aEnd, bStart: v, bEnd });
+    }
+
+    push("equal", end - aEnd);
+  };
+
+  diff({ aStart: 0, aEnd: a.length, bStart: 0, bEnd: b.length });
+
+  return operations;
+};
+
+/**
+ * Compute a line-level diff between two strings, adjacent changed lines are grouped into hunks.
+ */
+export const diffLines = (original: string, modified: string) => {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+
+  // Strip the common prefix and suffix, which is usually most of the document.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const operations = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  const hunks: Hunk[] = [];
+
+  let offset = a.slice(0, prefix).reduce((sum, line) => sum + line.length, 0);
+  let i = prefix;
+  let j = prefix;
+  let hunk: Hunk | null = null;
+
+  for (const operation of operations) {
+    if (operation === "equal") {
+      hunk = null;
+      offset += a[i]!.length;
+      i++;
+      j++;
+
+      continue;
+    }
+
+    if (!hunk) {
+      hunk = { start: offset, end: offset, line: i, removed: [], added: [] };
+      hunks.push(hunk);
+    }
+
+    if (operation === "delete") {
+      hunk.removed.push(a[i]!);
+      hunk.end += a[i]!.length;
+      offset += a[i]!.length;
+      i++;
+    } else {
+      hunk.added.push(b[j]!);
+      j++;
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * Apply hunks produced by `diffLines` to a `MagicString` holding the original text.
+ */
+export const applyHunks = (content: MagicString, hunks: Hunk[], offset = -1) => {
+  let index = offset;
+  for (const hunk of hunks.toSorted((a, b) => b.start - a.start)) {
+    index = content.update(hunk.start, hunk.end, hunk.added.join(""), index);
+  }
+
+  return index;
+};
@@ -0,0 +1,107 @@
+import { TFile, TFolder, Vault } from "obsidian";
+
+import type { TAbstractFile } from "obsidian";
+
+const MARKDOWN_EXTENSIONS = ["md", "mdx"];
+const CANVAS_EXTENSION = "canvas";
+
+export const isMarkdownFile = (file: TAbstractFile | null): file is TFile =>
+  file instanceof TFile && MARKDOWN_EXTENSIONS.includes(file.extension);
+
+/**
+ * Whether the file can reference images, i.e. a note or a canvas.
+ */
+export const isReferencingFile = (file: TAbstractFile | null): file is TFile =>
+  isMarkdownFile(file) || (file instanceof TFile && file.extension === CANVAS_EXTENSION);
+
+const collectFiles = (items: TAbstractFile[], filter: (file: TAbstractFile) => file is TFile) => {
+  const files = new Map<string, TFile>();
+  for (const item of items) {
+    if (item instanceof TFolder) {
+      Vault.recurseChildren(item, child => {
+        if (filter(child)) {
+          files.set(child.path, child);
+        }
+      });
+    } else if (filter(item)) {
+      files.set(item.path, item);
+    }
+  }
+
+  return [...files.values()];
+};
+
+/**
+ * Collect Markdown files from the given files and folders, folders are expanded recursively.
+ */
+export const collectMarkdownFiles = (items: TAbstractFile[]) => collectFiles(items, isMarkdownFile);
+
+/**
+ * Collect notes and canvases from the given files and folders, folders are expanded recursively.
+ */
+export const collectReferencingFiles = (items: TAbstractFile[]) =>
+  collectFiles(items, isReferencingFile);
+
+const collectStrings = (value: unknown, strings: string[]) => {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, strings);
+  } else if (value && typeof value === "object") {
+    for (const item of Object.values(value)) collectStrings(item, strings);
+  }
+
+  return strings;
+};
+
+/**
+ * Find which of the URLs are referenced in the content of a note or a canvas. The JSON of a
+ * canvas is decoded first, so URLs with escaped characters in its cards are matched as written.
+ */
+export const findReferencedUrls = (urls: Iterable<string>, extension: string, content: string) => {
+  let texts = [content];
+  if (extension === CANVAS_EXTENSION) {
+    try {
+      texts = collectStrings(JSON.parse(content), []);
+    } catch {
+      // Fall back to the raw content of a malformed canvas.
+    }
+  }
+
+  return new Set([...urls].filter(url => texts.some(text => text.includes(url))));
+};
+
+/**
+ * Path of `to` relative to the folder of the file at `from`, e.g. `../attachments/image.png`.
+ */
+export const getRelativePath = (from: string, to: string) => {
+  const source = from.split("/").slice(0, -1);
+  const target = to.split("/");
+
+  let common = 0;
+  while (
+    common < source.length &&
+    common < target.length - 1 &&
+    source[common] === target[common]
+  ) {
+    common++;
+  }
+
+  return [...source.slice(common).map(() => ".."), ...target.slice(common)].join("/");
+};
+
+/**
+ * Append a number to the file name until the path is not taken, e.g. `image 1.png`.
+ */
+export const getAvailablePath = (vault: Vault, path: string) => {
+  const index = path.lastIndexOf(".");
+  const [base, extension] =
+    index > path.lastIndexOf("/") ? [path.slice(0, index), path.slice(index)] : [path, ""];
+
+  let available = path;
+  for (let i = 1; vault.getAbstractFileByPath(available); i++) {
+    available = `${base} ${i}${extension}`;
+  }
+
+  return available;
+};
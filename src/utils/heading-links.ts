@@ -0,0 +1,97 @@
+import { parseLink } from "./markdown";
+
+/**
+ * New texts of the headings changed by formatting, keyed by the old texts normalized with
+ * `normalizeHeading`.
+ */
+export type HeadingRenames = Map<string, string>;
+
+// Obsidian ignores punctuation and case when resolving links to headings.
+const REGEXP_HEADING_PUNCTUATION = /[\s!"#$%&()*+,./:;<=>?@[\\\]^`{|}~]+/g;
+
+// Characters which cannot be in the subpath of a link, replaced with spaces like Obsidian does.
+const REGEXP_SUBPATH_INVALID = /[\s#%:[\\\]^|]+/g;
+
+const REGEXP_CLOSING_HASHES = /(?:^|\s+)#+\s*$/;
+
+export const normalizeHeading = (text: string) =>
+  text.replace(REGEXP_HEADING_PUNCTUATION, " ").trim().toLowerCase();
+
+/**
+ * Text of the heading without the closing hashes, e.g. `Intro ##` to `Intro`.
+ */
+export const getHeadingText = (text: string) => text.replace(REGEXP_CLOSING_HASHES, "").trim();
+
+/**
+ * Subpath of a link to the heading, e.g. `Foo: bar` to `Foo bar`.
+ */
+export const toSubpath = (text: string) =>
+  getHeadingText(text).replace(REGEXP_SUBPATH_INVALID, " ").trim();
+
+const encodeSubpath = (subpath: string) => subpath.replace(/[\s%()<>]/g, encodeURIComponent);
+
+/**
+ * Pair the headings before and after formatting by their order, nothing is paired if headings have
+ * been added or removed. Links resolve to the first heading with a matching text, so only the first
+ * one of the same text counts.
+ */
+export const createHeadingRenames = (
+  before: { text: string }[],
+  after: { text: string }[],
+): HeadingRenames => {
+  const renames: HeadingRenames = new Map();
+  if (before.length !== after.length) return renames;
+
+  const seen = new Set<string>();
+  for (const [index, heading] of before.entries()) {
+    const key = normalizeHeading(getHeadingText(heading.text));
+    if (!key || seen.has(key)) continue;
+
+    seen.add(key);
+
+    const text = getHeadingText(after[index]!.text);
+    if (normalizeHeading(text) !== key) {
+      renames.set(key, text);
+    }
+  }
+
+  return renames;
+};
+
+/**
+ * Rename the headings in a subpath like `Heading#Subheading`, block references are kept. Returns
+ * null if nothing is renamed.
+ */
+export const renameSubpath = (subpath: string, renames: HeadingRenames) => {
+  let isRenamed = false;
+  const parts = subpath.split("#").map(part => {
+    if (part.startsWith("^")) return part;
+
+    const text = renames.get(normalizeHeading(part));
+    if (text === undefined) return part;
+
+    isRenamed = true;
+
+    return toSubpath(text);
+  });
+
+  return isRenamed ? parts.join("#") : null;
+};
+
+/**
+ * Rewrite the subpath of a wikilink or a Markdown link to the renamed headings. Returns null if the
+ * link is not changed.
+ */
+export const rewriteLink = (source: string, renames: HeadingRenames) => {
+  const link = parseLink(source);
+  if (!link?.subpath) return null;
+
+  const subpath = renameSubpath(link.subpath, renames);
+  if (subpath === null) return null;
+
+  return (
+    source.slice(0, link.subpathStart) +
+    (link.isEncoded ? encodeSubpath(subpath) : subpath) +
+    source.slice(link.subpathEnd)
+  );
+};
@@ -0,0 +1,274 @@
+import { encodePixels, isEncodable } from "./codecs";
+
+import type { ImageFormat } from "@/model";
+
+export interface ProcessOptions {
+  /**
+   * Maximum width in pixels, `0` to keep the original size.
+   */
+  maxWidth: number;
+  format: ImageFormat;
+  /**
+   * Quality of lossy formats, from 1 to 100.
+   */
+  quality: number;
+  stripMetadata: boolean;
+}
+
+export interface ProcessedImage {
+  body: ArrayBuffer;
+  contentType: string;
+  /**
+   * Whether the format cannot be encoded by this version of Obsidian, so the original is kept.
+   */
+  isUnsupported?: boolean;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  apng: "image/apng",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  gif: "image/gif",
+  ico: "image/x-icon",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  svg: "image/svg+xml",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  webp: "image/webp",
+};
+
+export const getContentType = (filename: string) => {
+  const extension = filename.slice(filename.lastIndexOf(".") + 1).toLowerCase();
+
+  return CONTENT_TYPES[extension] || "application/octet-stream";
+};
+
+/**
+ * Whether the file name has the extension of an image, e.g. to tell image embeds from notes.
+ */
+export const isImageFile = (filename: string) => getContentType(filename).startsWith("image/");
+
+/**
+ * Change the extension of the file name to match the content type, e.g. after converting to WebP.
+ */
+export const changeExtension = (filename: string, contentType: string) => {
+  if (getContentType(filename) === contentType) return filename;
+
+  const extension = Object.keys(CONTENT_TYPES).find(key => CONTENT_TYPES[key] === contentType);
+  if (!extension) return filename;
+
+  const index = filename.lastIndexOf(".");
+
+  return `${index > 0 ? filename.slice(0, index) : filename}.${extension}`;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks with text, EXIF and modification time, which are not needed to render the image.
+const PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+
+const APP1 = 0xe1;
+const APP13 = 0xed;
+const COM = 0xfe;
+const SOS = 0xda;
+
+const readUint16 = (data: Uint8Array, index: number, littleEndian = false) =>
+  littleEndian ? data[index]! | (data[index + 1]! << 8) : (data[index]! << 8) | data[index + 1]!;
+
+const readUint32 = (data: Uint8Array, index: number, littleEndian = false) =>
+  littleEndian
+    ? (readUint16(data, index, true) | (readUint16(data, index + 2, true) << 16)) >>> 0
+    : ((readUint16(data, index) << 16) | readUint16(data, index + 2)) >>> 0;
+
+const concat = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+
+  let index = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, index);
+    index += chunk.length;
+  }
+
+  return result;
+};
+
+export const isJpeg = (data: Uint8Array) => data[0] === 0xff && data[1] === 0xd8;
+
+export const isPng = (data: Uint8Array) =>
+  PNG_SIGNATURE.every((byte, index) => data[index] === byte);
+
+/**
+ * Split a JPEG into its segments before the image data, each one with its marker and length. The
+ * last item is the rest of the file, starting from the SOS marker.
+ */
+const splitJpegSegments = (data: Uint8Array) => {
+  const segments: { marker: number; bytes: Uint8Array }[] = [];
+
+  let index = 2;
+  while (index + 4 <= data.length && data[index] === 0xff) {
+    const marker = data[index + 1]!;
+    if (marker === SOS) break;
+
+    const end = index + 2 + readUint16(data, index + 2);
+    segments.push({ marker, bytes: data.subarray(index, end) });
+    index = end;
+  }
+
+  return { segments, rest: data.subarray(index) };
+};
+
+/**
+ * Remove EXIF, XMP, IPTC and comments from a JPEG. The ICC profile is kept, since colors would
+ * look different without it.
+ */
+export const stripJpegMetadata = (data: Uint8Array) => {
+  const { segments, rest } = splitJpegSegments(data);
+  const kept = segments.filter(
+    ({ marker }) => marker !== APP1 && marker !== APP13 && marker !== COM,
+  );
+
+  return concat([data.subarray(0, 2), ...kept.map(({ bytes }) => bytes), rest]);
+};
+
+/**
+ * Read the EXIF orientation of a JPEG, `1` when missing. Other values mean the image has to be
+ * rotated or flipped to be displayed.
+ */
+export const getJpegOrientation = (data: Uint8Array) => {
+  const { segments } = splitJpegSegments(data);
+
+  for (const { marker, bytes } of segments) {
+    // "Exif\0\0" after the marker and the length
+    if (marker !== APP1 || String.fromCharCode(...bytes.subarray(4, 8)) !== "Exif") continue;
+
+    const tiff = bytes.subarray(10);
+    const littleEndian = tiff[0] === 0x49;
+    const ifd = readUint32(tiff, 4, littleEndian);
+    const count = readUint16(tiff, ifd, littleEndian);
+
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+
+      if (readUint16(tiff, entry, littleEndian) === 0x0112) {
+        return readUint16(tiff, entry + 8, littleEndian);
+      }
+    }
+  }
+
+  return 1;
+};
+
+/**
+ * Remove text, EXIF and time chunks from a PNG.
+ */
+export const stripPngMetadata = (data: Uint8Array) => {
+  const chunks = [data.subarray(0, PNG_SIGNATURE.length)];
+
+  let index = PNG_SIGNATURE.length;
+  while (index + 12 <= data.length) {
+    // Length, type, data and CRC
+    const end = index + 12 + readUint32(data, index);
+    const type = String.fromCharCode(...data.subarray(index + 4, index + 8));
+
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      chunks.push(data.subarray(index, end));
+    }
+
+    index = end;
+  }
+
+  return concat(chunks);
+};
+
+/**
+ * Scale the size down to the maximum width, keeping the aspect ratio. Images are never enlarged.
+ */
+export const getResizedSize = (width: number, height: number, maxWidth: number) => {
+  if (maxWidth <= 0 || width <= maxWidth) return { width, height };
+
+  return { width: maxWidth, height: Math.max(1, Math.round((height * maxWidth) / width)) };
+};
+
+const encode = async (bitmap: ImageBitmap, maxWidth: number, type: string, quality: number) => {
+  const { width, height } = getResizedSize(bitmap.width, bitmap.height, maxWidth);
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported.");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const format = type.slice("image/".length);
+  if (isEncodable(format)) {
+    try {
+      const pixels = context.getImageData(0, 0, width, height);
+      const body = await encodePixels(pixels, format, quality);
+
+      return new Blob([body], { type });
+    } catch {
+      // Fall back to the canvas, e.g. if WebAssembly is blocked.
+    }
+  }
+
+  return canvas.convertToBlob({ type, quality: quality / 100 });
+};
+
+/**
+ * Resize, convert and strip metadata from PNG and JPEG images before uploading. Images are decoded
+ * and resized by the canvas, WebP and AVIF are encoded by the bundled WASM codecs, so it works
+ * offline. Other images, like GIF and SVG, are returned as is.
+ *
+ * The canvas applies the EXIF orientation when decoding, so it is kept after re-encoding. When
+ * only stripping metadata, rotated JPEG images are re-encoded for the same reason.
+ */
+export const processImage = async (
+  body: ArrayBuffer,
+  contentType: string,
+  options: ProcessOptions,
+): Promise<ProcessedImage> => {
+  const { maxWidth, format, quality, stripMetadata } = options;
+  const data = new Uint8Array(body);
+  if (!isJpeg(data) && !isPng(data)) return { body, contentType };
+
+  // The type from the file name may be wrong, e.g. for remote images without an extension.
+  const originalType = isJpeg(data) ? "image/jpeg" : "image/png";
+
+  const isRotated = stripMetadata && isJpeg(data) && getJpegOrientation(data) !== 1;
+  let isUnsupported = false;
+
+  if (maxWidth > 0 || format !== "original" || isRotated) {
+    const bitmap = await createImageBitmap(new Blob([body], { type: originalType }));
+
+    try {
+      const isResized = maxWidth > 0 && bitmap.width > maxWidth;
+
+      if (isResized || format !== "original" || isRotated) {
+        const type = format === "original" ? originalType : `image/${format}`;
+
+        let blob = await encode(bitmap, maxWidth, type, quality);
+        // The canvas encodes unsupported types as PNG, so the original type is kept if the WASM
+        // codec has failed too.
+        if (blob.type !== type) {
+          isUnsupported = true;
+          blob = await encode(bitmap, maxWidth, originalType, quality);
+        }
+
+        // Keep the original if converting only made it larger.
+        if (isResized || isRotated || blob.size < body.byteLength) {
+          return { body: await blob.arrayBuffer(), contentType: blob.type, isUnsupported };
+        }
+      }
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  if (!stripMetadata) return { body, contentType, isUnsupported };
+
+  const stripped = isJpeg(data) ? stripJpegMetadata(data) : stripPngMetadata(data);
+
+  return { body: stripped.buffer, contentType, isUnsupported };
+};
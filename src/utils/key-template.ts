@@ -0,0 +1,103 @@
+export interface KeyContext {
+  /**
+   * Name of the vault.
+   */
+  vault: string;
+  /**
+   * Path of the note embedding the image, e.g. `Journal/2024/Note.md`.
+   */
+  notePath: string;
+  /**
+   * File name of the image, e.g. `Screenshot 1.png`.
+   */
+  filename: string;
+  /**
+   * SHA-256 of the image bytes, in hex.
+   */
+  hash: string;
+  date: Date;
+}
+
+export const DEFAULT_KEY_TEMPLATE = "obsidian/{timestamp}_{filename}.{ext}";
+
+export const KEY_PLACEHOLDERS = [
+  "vault",
+  "notePath",
+  "noteName",
+  "filename",
+  "ext",
+  "hash",
+  "timestamp",
+  "yyyy",
+  "MM",
+  "dd",
+  "HH",
+  "mm",
+  "ss",
+] as const;
+
+const REGEXP_PLACEHOLDER = /\{(\w+)(?::(\d+))?\}/g;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const splitExtension = (filename: string) => {
+  const index = filename.lastIndexOf(".");
+
+  return index > 0 ? [filename.slice(0, index), filename.slice(index + 1)] : [filename, ""];
+};
+
+const sanitizeSegment = (segment: string) =>
+  segment
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+
+/**
+ * Make each segment of the key safe for URLs and storage services. Letters with diacritics are
+ * folded to ASCII, spaces and other characters outside `A-Z a-z 0-9 . _ -` become `-`, and empty
+ * segments are removed.
+ */
+export const sanitizeKey = (key: string) =>
+  key.split("/").map(sanitizeSegment).filter(Boolean).join("/");
+
+/**
+ * Render the key template, e.g. `{notePath}/{yyyy}{MM}{dd}-{hash:8}.{ext}`. Values can be
+ * truncated with a length, like `{hash:8}`. Unknown placeholders are not replaced.
+ */
+export const renderKeyTemplate = (template: string, context: KeyContext) => {
+  const { vault, notePath, filename, hash, date } = context;
+  const [name, ext] = splitExtension(filename);
+  const [notePathWithoutExt = ""] = splitExtension(notePath);
+
+  const values: Record<(typeof KEY_PLACEHOLDERS)[number], string> = {
+    vault,
+    notePath: notePathWithoutExt,
+    noteName: notePathWithoutExt.slice(notePathWithoutExt.lastIndexOf("/") + 1),
+    // Names without any safe character, e.g. in CJK, fall back to the hash to stay unique
+    filename: sanitizeSegment(name!) || hash.slice(0, 8),
+    ext: ext!.toLowerCase(),
+    hash,
+    timestamp: String(date.getTime()),
+    yyyy: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+
+  const key = template.replace(
+    REGEXP_PLACEHOLDER,
+    (match, placeholder: string, length?: string) => {
+      if (!Object.hasOwn(values, placeholder)) return match;
+
+      const value = values[placeholder as keyof typeof values];
+
+      return length ? value.slice(0, Number(length)) : value;
+    },
+  );
+
+  return sanitizeKey(key);
+};
@@ -0,0 +1,481 @@
+import pluginMarkdown from "prettier/plugins/markdown";
+
+import { isImageFile } from "./image";
+
+import type { MagicString } from "./string";
+import type { ParserOptions } from "prettier";
+
+export interface ImageMatch {
+  /**
+   * - `image`: `![alt](url "title")`
+   * - `wikilink`: `![[image.png|300]]`
+   * - `reference`: the definition `[id]: url` used by `![alt][id]`
+   * - `html`: `<img src="url">`
+   */
+  type: "image" | "wikilink" | "reference" | "html";
+  /**
+   * Alt text, including the size like `alt|300`. For wikilinks, the text after the first `|`.
+   */
+  alt: string;
+  url: string;
+  start: number;
+  end: number;
+  /**
+   * Range of the URL in the source, without the angle brackets of `<url>`.
+   */
+  urlStart: number;
+  urlEnd: number;
+}
+
+export interface HeadingMatch {
+  level: number;
+  /**
+   * Text after the hashes, including the closing hashes if any. The first line for setext headings.
+   */
+  text: string;
+  /**
+   * Range of the text.
+   */
+  start: number;
+  end: number;
+  /**
+   * Offset of the opening hashes, `-1` for setext headings, whose level cannot be changed in place.
+   */
+  hashes: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Range of the whole link, e.g. `[[Note#Heading|alias]]` or `[text](Note.md#Heading)`, without the
+ * `!` of embeds.
+ */
+export type LinkMatch = TextRange;
+
+export interface ParsedLink {
+  /**
+   * Path of the linked note, empty for links within the note.
+   */
+  path: string;
+  /**
+   * Text after the first `#`, e.g. `Heading#Subheading` or `^block`, empty if there is none.
+   */
+  subpath: string;
+  /**
+   * Range of the subpath in the source, still URL encoded for Markdown links.
+   */
+  subpathStart: number;
+  subpathEnd: number;
+  /**
+   * Whether the destination is URL encoded, i.e. a Markdown link not wrapped in `<>`.
+   */
+  isEncoded: boolean;
+}
+
+interface Node {
+  type: string;
+  position?: { start: { offset: number }; end: { offset: number } };
+  children?: Node[];
+  url?: string;
+  alt?: string | null;
+  identifier?: string;
+  depth?: number;
+}
+
+const LINK_TYPES = new Set(["wikiLink", "link", "image"]);
+// Nodes whose content is not Markdown
+const LITERAL_TYPES = new Set(["code", "inlineCode", "math", "inlineMath", "html", "front-matter"]);
+
+const REGEXP_ATX_OPENING = /^([ \t]*)(#+)([ \t]*)/;
+
+const REGEXP_SIZE = /^\d+(?:x\d+)?$/;
+
+const REGEXP_IMG_SRC = /<img\b[^>]*?\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/gi;
+
+/**
+ * Find the `]` closing the `[` at the given index, skipping escaped and nested brackets.
+ */
+const findClosingBracket = (text: string, index: number) => {
+  let depth = 0;
+  for (let i = index; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]" && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Find the range of the link destination starting at the given index, either `<url>` or a URL with
+ * balanced parentheses.
+ */
+const findDestination = (text: string, index: number): [number, number] => {
+  let start = index;
+  while (/\s/.test(text[start] ?? "")) start++;
+
+  if (text[start] === "<") {
+    const end = text.indexOf(">", start);
+
+    return [start + 1, end];
+  }
+
+  let end = start;
+  let depth = 0;
+  for (; end < text.length; end++) {
+    const char = text[end]!;
+    if (char === "\\") {
+      end++;
+    } else if (/\s/.test(char)) {
+      break;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && depth-- === 0) {
+      break;
+    }
+  }
+
+  return [start, end];
+};
+
+const walk = (node: Node, callback: (node: Node) => void) => {
+  callback(node);
+  node.children?.forEach(child => walk(child, callback));
+};
+
+/**
+ * Find embedded images in the Markdown text with Prettier's Markdown parser, so images in code
+ * blocks, inline code and math are ignored. Links in `<img>` tags are found in HTML nodes.
+ */
+export const findImages = async (text: string) => {
+  const root: Node = await pluginMarkdown.parsers.markdown.parse(text, {} as ParserOptions);
+
+  const matches: ImageMatch[] = [];
+  const definitions = new Map<string, Node>();
+  const references = new Map<string, string>();
+
+  walk(root, node => {
+    if (!node.position) return;
+
+    const start = node.position.start.offset;
+    const end = node.position.end.offset;
+    const source = text.slice(start, end);
+
+    switch (node.type) {
+      case "image": {
+        const close = findClosingBracket(source, 1);
+        const [urlStart, urlEnd] = findDestination(source, close + 2);
+
+        matches.push({
+          type: "image",
+          alt: node.alt ?? "",
+          url: node.url!,
+          start,
+          end,
+          urlStart: start + urlStart,
+          urlEnd: start + urlEnd,
+        });
+        break;
+      }
+      case "wikiLink": {
+        if (text[start - 1] !== "!") break;
+
+        // `[[path#heading|alt|size]]`
+        const inner = source.slice(2, -2);
+        const pipe = inner.indexOf("|");
+        const target = pipe === -1 ? inner : inner.slice(0, pipe);
+        const path = target.replace(/[#^].*$/, "").trim();
+        // Embeds of notes, PDFs and other files are transclusions, not images.
+        if (!isImageFile(path)) break;
+
+        const urlStart = start + 2 + target.indexOf(path);
+
+        matches.push({
+          type: "wikilink",
+          alt: pipe === -1 ? "" : inner.slice(pipe + 1),
+          url: path,
+          start: start - 1,
+          end,
+          urlStart,
+          urlEnd: urlStart + path.length,
+        });
+        break;
+      }
+      case "imageReference": {
+        if (!references.has(node.identifier!)) {
+          references.set(node.identifier!, node.alt ?? "");
+        }
+        break;
+      }
+      case "definition": {
+        if (!definitions.has(node.identifier!)) {
+          definitions.set(node.identifier!, node);
+        }
+        break;
+      }
+      case "html": {
+        for (const match of source.matchAll(REGEXP_IMG_SRC)) {
+          const url = match[1] ?? match[2] ?? match[3] ?? "";
+          const quote = match[3] === undefined ? 1 : 0;
+          const urlEnd = start + match.index + match[0].length - quote;
+
+          matches.push({
+            type: "html",
+            alt: "",
+            url,
+            start: start + match.index,
+            end: urlEnd + quote,
+            urlStart: urlEnd - url.length,
+            urlEnd,
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  // Definitions may come before or after the images using them.
+  for (const [identifier, alt] of references) {
+    const node = definitions.get(identifier);
+    if (!node?.position) continue;
+
+    const start = node.position.start.offset;
+    const end = node.position.end.offset;
+    const source = text.slice(start, end);
+    const [urlStart, urlEnd] = findDestination(source, findClosingBracket(source, 0) + 2);
+
+    matches.push({
+      type: "reference",
+      alt,
+      url: node.url!,
+      start,
+      end,
+      urlStart: start + urlStart,
+      urlEnd: start + urlEnd,
+    });
+  }
+
+  return matches.toSorted((a, b) => a.start - b.start);
+};
+
+const decode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Split the target of a wikilink like `[[Note#Heading|alias]]` or a Markdown link like
+ * `[text](Note.md#Heading)` into the path and the subpath. Returns null for other sources.
+ */
+export const parseLink = (source: string): ParsedLink | null => {
+  const open = source.startsWith("!") ? 1 : 0;
+
+  let start = 0;
+  let end = 0;
+  let isEncoded = false;
+  if (source.startsWith("[[", open) && source.endsWith("]]")) {
+    start = open + 2;
+    end = source.indexOf("|", start);
+    if (end === -1) end = source.length - 2;
+  } else if (source[open] === "[") {
+    const close = findClosingBracket(source, open);
+    if (close === -1 || source[close + 1] !== "(") return null;
+
+    [start, end] = findDestination(source, close + 2);
+    if (end < start) return null;
+
+    isEncoded = source[start - 1] !== "<";
+  } else {
+    return null;
+  }
+
+  const target = source.slice(start, end);
+  const hash = target.indexOf("#");
+  const path = hash === -1 ? target : target.slice(0, hash);
+  const subpath = hash === -1 ? "" : target.slice(hash + 1);
+
+  return {
+    path: isEncoded ? decode(path) : path.trim(),
+    subpath: isEncoded ? decode(subpath) : subpath,
+    subpathStart: hash === -1 ? end : start + hash + 1,
+    subpathEnd: end,
+    isEncoded,
+  };
+};
+
+/**
+ * Render a Markdown image, used to replace wikilink embeds which cannot link to remote URLs. A
+ * size without alt text like `300` is written as `|300`, otherwise it would become the alt text.
+ */
+export const toMarkdownImage = (alt: string, url: string) => {
+  const text = REGEXP_SIZE.test(alt) ? `|${alt}` : alt;
+
+  return `![${text}](${/[\s()<>]/.test(url) ? `<${url}>` : url})`;
+};
+
+const toHeading = (text: string, node: Node): HeadingMatch => {
+  const start = node.position!.start.offset;
+  const end = node.position!.end.offset;
+  const source = text.slice(start, end);
+
+  const match = source.match(REGEXP_ATX_OPENING);
+  if (!match?.[2]) {
+    const indent = source.match(/^[ \t]*/)![0].length;
+    const lineEnd = source.indexOf("\n");
+
+    return {
+      level: node.depth!,
+      text: source.slice(indent, lineEnd).trimEnd(),
+      start: start + indent,
+      end: start + source.slice(0, lineEnd).trimEnd().length,
+      hashes: -1,
+    };
+  }
+
+  return {
+    level: match[2].length,
+    text: source.slice(match[0].length),
+    start: start + match[0].length,
+    end,
+    hashes: start + match[1]!.length,
+  };
+};
+
+/**
+ * A Markdown text parsed once with Prettier's Markdown parser, shared by the steps handling
+ * headings, links and code, so `~~~` fences, indented code, math, HTML and the frontmatter are told
+ * apart from Markdown without parsing the text line by line again.
+ *
+ * Edits made through `update` move the offsets in the document along, so it is valid as long as
+ * the text is only changed by it.
+ */
+export class MarkdownDocument {
+  text: string;
+  /**
+   * ATX and setext headings at the top level, headings in blockquotes, callouts and lists are left
+   * as they are.
+   */
+  headings: HeadingMatch[] = [];
+  /**
+   * Wikilinks, Markdown links and Markdown images, see `LinkMatch`.
+   */
+  links: LinkMatch[] = [];
+  /**
+   * HTML blocks and inline HTML, e.g. the markers of the table of contents.
+   */
+  html: TextRange[] = [];
+  /**
+   * Code blocks, inline code, math, HTML and the frontmatter, whose content is not Markdown.
+   */
+  literals: TextRange[] = [];
+
+  private constructor(text: string) {
+    this.text = text;
+  }
+
+  static async parse(text: string) {
+    const root: Node = await pluginMarkdown.parsers.markdown.parse(text, {} as ParserOptions);
+    const document = new MarkdownDocument(text);
+
+    for (const node of root.children ?? []) {
+      if (!node.position) continue;
+
+      if (node.type === "heading") {
+        document.headings.push(toHeading(text, node));
+      }
+    }
+
+    walk(root, node => {
+      if (!node.position) return;
+
+      const range = { start: node.position.start.offset, end: node.position.end.offset };
+      if (LINK_TYPES.has(node.type)) {
+        document.links.push(range);
+      } else if (LITERAL_TYPES.has(node.type)) {
+        document.literals.push(range);
+      }
+      if (node.type === "html") {
+        document.html.push({ ...range });
+      }
+    });
+
+    return document;
+  }
+
+  /**
+   * Whether the offset is in a code block, inline code, math, HTML or the frontmatter.
+   */
+  isLiteral(offset: number) {
+    return this.literals.some(({ start, end }) => offset >= start && offset < end);
+  }
+
+  /**
+   * Replace the range in the content, and move the offsets in the document after it. Only for
+   * edits which keep the structure of the document, e.g. changing the hashes or the text of a
+   * heading, or replacing a link. Ranges within the replaced one are dropped, and the headings it
+   * touches are read again from the new text.
+   */
+  // eslint-disable-next-line max-params
+  update(content: MagicString, start: number, end: number, text: string, offset = -1) {
+    const index = content.update(start, end, text, offset);
+    const delta = text.length - (end - start);
+
+    // A range starting where the edit starts keeps its start, one ending there includes the text.
+    const move = (position: number, isStart: boolean) => {
+      if (position < start || (isStart && position === start)) return position;
+      if (position >= end) return position + delta;
+
+      return start + text.length;
+    };
+    const moveRanges = <Range extends TextRange>(ranges: Range[]) =>
+      ranges
+        .filter(range => !(range.start > start && range.end <= end))
+        .map(range => {
+          range.start = move(range.start, true);
+          range.end = move(range.end, false);
+
+          return range;
+        });
+
+    const touched = new Set(
+      this.headings.filter(heading => {
+        const lineStart = heading.hashes === -1 ? heading.start : heading.hashes;
+
+        return lineStart <= end && heading.end >= start;
+      }),
+    );
+
+    this.text = content.current;
+    this.headings = moveRanges(this.headings);
+    this.links = moveRanges(this.links);
+    this.html = moveRanges(this.html);
+    this.literals = moveRanges(this.literals);
+
+    for (const heading of this.headings) {
+      if (heading.hashes !== -1) {
+        heading.hashes = move(heading.hashes, true);
+      }
+      if (!touched.has(heading)) continue;
+
+      if (heading.hashes !== -1) {
+        const [opening, , hashes] = this.text.slice(heading.hashes).match(REGEXP_ATX_OPENING)!;
+        heading.level = hashes!.length;
+        heading.start = heading.hashes + opening.length;
+      }
+      heading.text = this.text.slice(heading.start, heading.end);
+    }
+
+    return index;
+  }
+}
@@ -0,0 +1,268 @@
+export interface NumberingOptions {
+  /**
+   * Heading level numbering starts at, the smallest level in the note is used if it is larger.
+   */
+  startLevel: number;
+  /**
+   * Deepest heading level to number.
+   */
+  endLevel: number;
+  /**
+   * Separator between the numbers of `{path}`.
+   */
+  separator: string;
+  /**
+   * Template of each level from the start level, the last one is used for deeper levels.
+   */
+  templates: string[];
+  /**
+   * Texts of headings not to number, case insensitive, e.g. `References`.
+   */
+  exclude: string[];
+}
+
+export interface NumberingHeading {
+  level: number;
+  /**
+   * Text of the heading after the hashes, including the existing numbering.
+   */
+  text: string;
+}
+
+export interface HeadingNumbering {
+  /**
+   * Length of the existing numbering at the start of the text, including the spaces after it.
+   */
+  existing: number;
+  /**
+   * Numbering to replace the existing one with, including the space after it. Empty for headings
+   * not to number, whose existing numbering is removed.
+   */
+  prefix: string;
+}
+
+/**
+ * Numbering written by the plugin, so it can be told apart from headings which start with numbers,
+ * like `2024 Goals`.
+ */
+export interface NumberedHeading {
+  /**
+   * Numbering including the space after it, e.g. `1.2 `.
+   */
+  prefix: string;
+  /**
+   * Text of the heading after the numbering.
+   */
+  text: string;
+}
+
+export type NumeralStyle = keyof typeof NUMERALS;
+
+export const DEFAULT_NUMBERING_TEMPLATES = ["{path}.", "{path}"];
+
+const REGEXP_PLACEHOLDER = /\{(n|path)(?::([\w-]+))?\}/g;
+
+// Pandoc attributes marking unnumbered headings, e.g. `{.unnumbered}`, `{-}` or `{#id .unnumbered}`
+const REGEXP_UNNUMBERED = /\{(?:[^}]*\s)?(?:\.unnumbered|-)(?:\s[^}]*)?\}\s*$/;
+
+// Full-width punctuation like `、` and `）` needs no space before the heading text.
+const REGEXP_FULL_WIDTH_END = /[\u3000-\u303f\uff00-\uffef]$/;
+
+const CHINESE_DIGITS = "零一二三四五六七八九";
+const CHINESE_UNITS = ["", "十", "百", "千"];
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, "M"],
+  [900, "CM"],
+  [500, "D"],
+  [400, "CD"],
+  [100, "C"],
+  [90, "XC"],
+  [50, "L"],
+  [40, "XL"],
+  [10, "X"],
+  [9, "IX"],
+  [5, "V"],
+  [4, "IV"],
+  [1, "I"],
+];
+
+export const toRoman = (value: number) => {
+  if (value < 1 || value > 3999) return String(value);
+
+  let rest = value;
+  let result = "";
+  for (const [number, numeral] of ROMAN_NUMERALS) {
+    for (; rest >= number; rest -= number) {
+      result += numeral;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Bijective base-26 like spreadsheet columns: `A` to `Z`, then `AA`.
+ */
+export const toAlpha = (value: number) => {
+  let rest = value;
+  let result = "";
+  for (; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    result = String.fromCharCode(65 + ((rest - 1) % 26)) + result;
+  }
+
+  return result || String(value);
+};
+
+/**
+ * Chinese numerals below 10000, e.g. `十一`, `二十` and `一百零一`.
+ */
+export const toChinese = (value: number) => {
+  if (value < 0 || value >= 10000) return String(value);
+  if (value < 10) return CHINESE_DIGITS[value]!;
+  if (value < 20) return `十${value % 10 ? CHINESE_DIGITS[value % 10] : ""}`;
+
+  const digits = Array.from(String(value), Number);
+
+  let result = "";
+  let hasZero = false;
+  for (const [index, digit] of digits.entries()) {
+    if (digit === 0) {
+      hasZero = true;
+      continue;
+    }
+
+    if (hasZero) {
+      result += CHINESE_DIGITS[0];
+      hasZero = false;
+    }
+    result += CHINESE_DIGITS[digit]! + CHINESE_UNITS[digits.length - 1 - index]!;
+  }
+
+  return result;
+};
+
+const NUMERALS = {
+  decimal: String,
+  roman: (value: number) => toRoman(value).toLowerCase(),
+  "upper-roman": toRoman,
+  alpha: (value: number) => toAlpha(value).toLowerCase(),
+  "upper-alpha": toAlpha,
+  chinese: toChinese,
+};
+
+const getNumeral = (style = "decimal") =>
+  Object.hasOwn(NUMERALS, style) ? NUMERALS[style as NumeralStyle] : null;
+
+/**
+ * Render the numbering of a heading, e.g. `{n:chinese}、` to `一、`, or `{path}` to `1.2`.
+ * `counters` are the numbers of the heading and its parents from the start level. Unknown
+ * placeholders are not replaced.
+ */
+export const renderNumbering = (template: string, counters: number[], separator: string) =>
+  template.replace(REGEXP_PLACEHOLDER, (match, name: string, style?: string) => {
+    if (name === "path") return counters.join(separator);
+
+    const numeral = getNumeral(style);
+
+    return numeral ? numeral(counters.at(-1) ?? 0) : match;
+  });
+
+/**
+ * Length of the numbering recorded for the heading, `0` if it is not numbered by the plugin.
+ */
+const matchRecorded = (text: string, generated: NumberedHeading[]) => {
+  const record = generated.find(
+    ({ prefix, text: rest }) =>
+      text.startsWith(prefix) && text.slice(prefix.length).trim() === rest.trim(),
+  );
+
+  return record?.prefix.length ?? 0;
+};
+
+/**
+ * Length of the numbering at the start of the heading with the spaces after it, if it is exactly
+ * the numbering the heading gets, e.g. `1.` but not `1.5` for `1.5 release notes`.
+ */
+const matchNumbering = (text: string, numbering: string) => {
+  if (!numbering || !text.startsWith(numbering)) return 0;
+
+  const spaces = text.slice(numbering.length).match(/^\s*/)![0];
+  const isSeparated =
+    spaces || REGEXP_FULL_WIDTH_END.test(numbering) || numbering.length === text.length;
+
+  return isSeparated ? numbering.length + spaces.length : 0;
+};
+
+/**
+ * Number the headings of a note.
+ *
+ * Levels are counted from `startLevel`, or from the smallest level in the note if it is larger, so
+ * `1.` is the first top level heading by default. Headings above the start level restart the
+ * numbering, while headings below the end level are not numbered. Excluded headings and headings
+ * marked with `{.unnumbered}` do not count.
+ *
+ * Only numbering in `generated`, which the plugin has written before, is replaced or removed, so
+ * headings like `2024 Goals` are left as is. Numbering not recorded is only recognized if it is
+ * already the one the heading gets, e.g. written by older versions.
+ */
+export const numberHeadings = (
+  headings: NumberingHeading[],
+  options: NumberingOptions,
+  generated: NumberedHeading[] = [],
+) => {
+  if (headings.length === 0) return [];
+
+  const { endLevel, separator, exclude } = options;
+  const templates = options.templates.length > 0 ? options.templates : DEFAULT_NUMBERING_TEMPLATES;
+  const startLevel = Math.max(options.startLevel, Math.min(...headings.map(({ level }) => level)));
+  const excluded = new Set(exclude.map(text => text.trim().toLowerCase()).filter(Boolean));
+
+  let counters: number[] = [];
+
+  return headings.map(({ level, text }): HeadingNumbering => {
+    const recorded = matchRecorded(text, generated);
+    const unnumbered = { existing: recorded, prefix: "" };
+
+    if (level < startLevel) {
+      counters = [];
+
+      return unnumbered;
+    }
+    if (level > endLevel) return unnumbered;
+
+    const rest = text.slice(recorded);
+    if (REGEXP_UNNUMBERED.test(rest) || excluded.has(rest.trim().toLowerCase())) {
+      return unnumbered;
+    }
+
+    const depth = level - startLevel + 1;
+    if (depth > counters.length) {
+      while (counters.length < depth) counters.push(1);
+    } else {
+      counters = counters.slice(0, depth);
+      counters[depth - 1]!++;
+    }
+
+    const template = templates[Math.min(depth, templates.length) - 1]!;
+    const numbering = renderNumbering(template, counters, separator);
+    const space = REGEXP_FULL_WIDTH_END.test(numbering) ? "" : " ";
+
+    return {
+      existing: recorded || matchNumbering(text, numbering),
+      prefix: numbering ? `${numbering}${space}` : "",
+    };
+  });
+};
+
+/**
+ * Remove the numbering recognized by `numberHeadings` from the headings.
+ */
+export const removeNumbering = (
+  headings: NumberingHeading[],
+  options: NumberingOptions,
+  generated: NumberedHeading[] = [],
+) =>
+  numberHeadings(headings, options, generated).map(
+    ({ existing }): HeadingNumbering => ({ existing, prefix: "" }),
+  );
@@ -0,0 +1,92 @@
+import { getHeadingText, toSubpath } from "./heading-links";
+
+import type { MarkdownDocument } from "./markdown";
+
+export interface TocOptions {
+  /**
+   * Heading level the table of contents starts at, the smallest level in the note is used if it is
+   * larger.
+   */
+  startLevel: number;
+  /**
+   * Number of heading levels to include.
+   */
+  depth: number;
+}
+
+export interface TocRange {
+  /**
+   * Range of the table of contents, from the end of the start marker to the start of the end
+   * marker, so an end marker indented into the list of the old table of contents is moved out.
+   */
+  start: number;
+  end: number;
+  /**
+   * Whether the end marker exists, it is added after the table of contents if not.
+   */
+  hasEnd: boolean;
+}
+
+export const TOC_START_MARKER = "<!-- toc -->";
+export const TOC_END_MARKER = "<!-- tocstop -->";
+
+const REGEXP_TOC_START = /^<!--\s*toc\s*-->$/i;
+const REGEXP_TOC_END = /^<!--\s*tocstop\s*-->$/i;
+
+/**
+ * Find the first pair of markers which are HTML on lines of their own, so markers in code blocks
+ * or within paragraphs are ignored.
+ */
+export const findTocRange = (document: MarkdownDocument): TocRange | null => {
+  const { text } = document;
+  const markers = document.html.flatMap(({ start, end }) => {
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = text.indexOf("\n", end);
+    const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+
+    return line.trim() === text.slice(start, end).trim()
+      ? [{ marker: line.trim(), start, end }]
+      : [];
+  });
+
+  const start = markers.find(({ marker }) => REGEXP_TOC_START.test(marker));
+  if (!start) return null;
+
+  const end = markers.find(
+    ({ start: offset, marker }) => offset > start.end && REGEXP_TOC_END.test(marker),
+  );
+
+  return end
+    ? { start: start.end, end: end.start, hasEnd: true }
+    : { start: start.end, end: start.end, hasEnd: false };
+};
+
+/**
+ * Render a nested list of links to the headings, e.g. `- [[#1. Intro|1. Intro]]`. Items are
+ * nested under the closest previous heading of a smaller level, so skipped levels are not indented
+ * twice.
+ */
+export const renderToc = (headings: { level: number; text: string }[], options: TocOptions) => {
+  if (headings.length === 0) return "";
+
+  const startLevel = Math.max(options.startLevel, Math.min(...headings.map(({ level }) => level)));
+  const endLevel = startLevel + options.depth - 1;
+
+  const parents: number[] = [];
+  const lines: string[] = [];
+  for (const { level, text } of headings) {
+    if (level < startLevel || level > endLevel) continue;
+
+    while (parents.length > 0 && parents.at(-1)! >= level) {
+      parents.pop();
+    }
+
+    const alias = getHeadingText(text)
+      .replace(/[[\]|]/g, "")
+      .replace(/\s{2,}/g, " ");
+    lines.push(`${"  ".repeat(parents.length)}- [[#${toSubpath(text)}|${alias}]]`);
+    parents.push(level);
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,64 @@
+import { ConfigResolver } from "@/config-resolver";
+
+import type PrettierPlugin from "@/main";
+import type { App, DataAdapter, TFolder, Vault } from "obsidian";
+
+// Config files in the tests are JSON, which is also valid YAML.
+vi.mock("obsidian", () => ({ parseYaml: (text: string) => JSON.parse(text) }));
+
+const MockPlugin = (config: object) => {
+  const root = { path: "/", isRoot: () => true } as TFolder;
+  const adapter = {
+    list: async () => ({ files: [".prettierrc"], folders: [] }),
+    read: async () => JSON.stringify(config),
+  } satisfies Partial<DataAdapter> as unknown as DataAdapter;
+  const vault = {
+    adapter,
+    getAllFolders: () => [root],
+  } satisfies Partial<Vault> as unknown as Vault;
+
+  return { app: { vault } as App } satisfies Partial<PrettierPlugin> as PrettierPlugin;
+};
+
+const getOptions = async (config: object, path = "note.md") => {
+  const resolver = new ConfigResolver(MockPlugin(config));
+  await resolver.load();
+
+  return resolver.getOptions(path);
+};
+
+describe("Config resolver", () => {
+  test.concurrent("Should ignore the plugins, parser and file path", async ({ expect }) => {
+    const options = await getOptions({
+      plugins: ["prettier-plugin-foo"],
+      parser: "babel",
+      filepath: "foo.js",
+      tabWidth: 4,
+    });
+
+    expect(options).toEqual({ tabWidth: 4 });
+  });
+
+  test.concurrent("Should ignore the plugins in overrides", async ({ expect }) => {
+    const options = await getOptions({
+      overrides: [{ files: "*.md", options: { plugins: ["prettier-plugin-foo"], useTabs: true } }],
+    });
+
+    expect(options).toEqual({ useTabs: true });
+  });
+
+  test.concurrent.for([
+    { name: "not an array", overrides: { files: "*.md", options: { useTabs: true } } },
+    { name: "without files", overrides: [{ options: { useTabs: true } }] },
+    { name: "without options", overrides: [{ files: "*.md" }] },
+    { name: "with invalid files", overrides: [{ files: 1, options: { useTabs: true } }] },
+    {
+      name: "with invalid excluded files",
+      overrides: [{ files: "*.md", excludeFiles: [1], options: { useTabs: true } }],
+    },
+  ])("Should skip overrides $name", async ({ overrides }, { expect }) => {
+    const options = await getOptions({ semi: false, overrides });
+
+    expect(options).toEqual({ semi: false });
+  });
+});
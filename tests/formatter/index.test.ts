@@ -4,6 +4,7 @@ import path from "node:path";
 import { isDefined } from "@goodbyenjn/utils/remeda";
 import { globSync } from "tinyglobby";
 
+import { createApi } from "@/api";
 import { Formatter } from "@/formatter";
 import { getDefaultSettings } from "@/model";
 import { MagicString } from "@/utils/string";
@@ -11,7 +12,15 @@ import { MagicString } from "@/utils/string";
 import type PrettierPlugin from "@/main";
 import type { Settings } from "@/model";
 import type { Merge } from "@goodbyenjn/utils/types";
-import type { App, Editor, FrontMatterCache, MetadataCache, TFile, Vault } from "obsidian";
+import type {
+  App,
+  Editor,
+  EditorTransaction,
+  FrontMatterCache,
+  MetadataCache,
+  TFile,
+  Vault,
+} from "obsidian";
 import type { Mock } from "vitest";
 
 type MockedObject<T> = Partial<{ [K in keyof T]: Mock }>;
@@ -41,7 +50,9 @@ const MockPlugin = (init?: {
   } satisfies MockedObject<MetadataCache> as unknown as MetadataCache;
   const vault = {
     read: vi.fn(() => file.content),
+    cachedRead: vi.fn(() => file.content),
     modify: vi.fn(),
+    getFileByPath: vi.fn(() => null),
   } satisfies MockedObject<Vault> as unknown as Vault;
 
   return {
@@ -62,10 +73,27 @@ const MockEditor = {
 
   getScrollInfo: vi.fn(() => ({ top: 0, left: 0 })),
   scrollTo: vi.fn(),
+
+  listSelections: vi.fn(() => [{ anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 0 } }]),
+  somethingSelected: vi.fn(() => false),
+  transaction: vi.fn(),
 } satisfies MockedObject<Editor>;
 
 const editor = MockEditor as unknown as Editor;
 
+// Apply the changes of the last editor transaction to the original content.
+const applyTransaction = (original: string) => {
+  const { changes = [], selection }: EditorTransaction =
+    MockEditor.transaction.mock.lastCall?.[0] || {};
+
+  const content = new MagicString(original);
+  for (const { from, to = from, text } of changes.toReversed()) {
+    content.update(content.positionToOffset(from), content.positionToOffset(to), text);
+  }
+
+  return { output: content.current, position: selection?.from };
+};
+
 const CURSOR = "│";
 
 const resolve = (...paths: string[]) => path.resolve(import.meta.dirname, ...paths);
@@ -203,6 +231,73 @@ describe.concurrent("Should format on file change", () => {
   });
 });
 
+describe("Should format on modify", () => {
+  test.concurrent.for([
+    { formatOnModify: true, expected: 1 },
+    { formatOnModify: false, expected: 0 },
+  ])("FormatOnModify: $formatOnModify", async ({ formatOnModify, expected }, { expect }) => {
+    const formatter = new Formatter(
+      MockPlugin({
+        settings: { formatOnModify },
+      }),
+    );
+
+    formatter.formatFile = vi.fn();
+    await formatter.formatOnModify(MockFile());
+    expect(formatter.formatFile).toBeCalledTimes(expected);
+  });
+
+  // Not concurrent, since mocks are restored whenever another test starts.
+  test("Skip own modification", async ({ expect }) => {
+    const file = MockFile("mock.md", "a\n\n\n\nb\n");
+    const plugin = MockPlugin({
+      settings: { formatOnModify: true },
+      file,
+    });
+    const formatter = new Formatter(plugin);
+
+    await formatter.formatOnModify(file);
+    expect(plugin.app.vault.modify).toBeCalledTimes(1);
+
+    const written = (plugin.app.vault.modify as Mock).mock.lastCall?.[1];
+    // The mocked vault reads the file content.
+    file.content = written;
+
+    await formatter.formatOnModify(file);
+    expect(plugin.app.vault.modify).toBeCalledTimes(1);
+  });
+});
+
+describe.concurrent("Should format on idle", () => {
+  test.concurrent.for([
+    { formatOnIdle: true, selected: false, composing: false, expected: 1 },
+    { formatOnIdle: false, selected: false, composing: false, expected: 0 },
+    { formatOnIdle: true, selected: true, composing: false, expected: 0 },
+    { formatOnIdle: true, selected: false, composing: true, expected: 0 },
+  ])(
+    "FormatOnIdle: $formatOnIdle & Selected: $selected & Composing: $composing",
+    async (x, { expect }) => {
+      const { formatOnIdle, selected, composing, expected } = x;
+
+      const formatter = new Formatter(
+        MockPlugin({
+          settings: { formatOnIdle },
+        }),
+      );
+      const idleEditor = {
+        ...MockEditor,
+        getValue: vi.fn(() => "a\n\n\n\nb\n"),
+        somethingSelected: vi.fn(() => selected),
+        cm: { composing },
+      } as unknown as Editor;
+
+      formatter.applyContent = vi.fn();
+      await formatter.formatOnIdle(idleEditor, MockFile());
+      expect(formatter.applyContent).toBeCalledTimes(expected);
+    },
+  );
+});
+
 describe.concurrent("Prettier options", () => {
   test.concurrent.for([
     {
@@ -236,6 +331,50 @@ describe.concurrent("Prettier options", () => {
   });
 });
 
+describe.concurrent("Prettier options with overrides", () => {
+  const formatOverrides = [
+    { files: "Journal/", options: { proseWrap: "always" } },
+    { files: ["Snippets/**", "*.mdx"], excludeFiles: "Snippets/legacy/", options: { tabWidth: 2 } },
+    { files: "Journal/2024/", options: { proseWrap: "never" } },
+  ] satisfies Settings["formatOverrides"];
+
+  test.concurrent.for([
+    { filepath: "mock.md", expected: { tabWidth: 4, proseWrap: undefined } },
+    { filepath: "Journal/mock.md", expected: { tabWidth: 4, proseWrap: "always" } },
+    { filepath: "Journal/2024/mock.md", expected: { tabWidth: 4, proseWrap: "never" } },
+    { filepath: "Snippets/a/mock.md", expected: { tabWidth: 2, proseWrap: undefined } },
+    { filepath: "Snippets/legacy/mock.md", expected: { tabWidth: 4, proseWrap: undefined } },
+    { filepath: "Journal/mock.mdx", expected: { tabWidth: 2, proseWrap: "always" } },
+  ])("Overrides: $filepath", ({ filepath, expected }, { expect }) => {
+    const formatter = new Formatter(
+      MockPlugin({
+        settings: { formatOverrides },
+      }),
+    );
+
+    const { tabWidth, proseWrap } = formatter.getPrettierOptions(MockFile(filepath));
+
+    expect({ tabWidth, proseWrap }).toEqual(expected);
+  });
+
+  test.concurrent.for([
+    { options: undefined, expected: { tabWidth: 2, proseWrap: "always" } },
+    { options: "invalid", expected: { tabWidth: 2, proseWrap: "always" } },
+    { options: { tabWidth: 8 }, expected: { tabWidth: 8, proseWrap: "always" } },
+  ])("Frontmatter: $options", ({ options, expected }, { expect }) => {
+    const formatter = new Formatter(
+      MockPlugin({
+        frontmatter: { "prettier-options": options },
+        settings: { formatOverrides },
+      }),
+    );
+
+    const { tabWidth, proseWrap } = formatter.getPrettierOptions(MockFile("Journal/mock.mdx"));
+
+    expect({ tabWidth, proseWrap }).toEqual(expected);
+  });
+});
+
 describe.concurrent("Parser name", () => {
   test.concurrent.for([
     { extension: "md", expected: "markdown" },
@@ -269,7 +408,7 @@ test.concurrent("Assert fast mode is more quickly", async ({ expect }) => {
     const end = performance.now();
 
     const time = end - start;
-    const output = MockEditor.setValue.mock.lastCall?.[0];
+    const { output } = applyTransaction(content);
 
     result.push({ time, output });
   }
@@ -305,6 +444,61 @@ describe.concurrent("Format file", async () => {
   });
 });
 
+// Not concurrent, since mocks are restored whenever another test starts.
+describe("Upload images on format", () => {
+  test.for([true, false])("Enabled: %s", async (enabled, { expect }) => {
+    const file = MockFile("mock.md", "![](image.png)");
+    const plugin = MockPlugin({ settings: { uploadImagesOnFormat: enabled }, file });
+    const formatter = new Formatter(plugin);
+    const uploadImages = vi.fn(async () => -1);
+    formatter.imageUploader.uploadImages = uploadImages;
+
+    await formatter.formatFile(file);
+
+    expect(uploadImages).toBeCalledTimes(enabled ? 1 : 0);
+  });
+});
+
+describe.concurrent("Format text", () => {
+  test.concurrent.for([
+    { text: "#  Title\n\n\n\ncontent", options: {}, expected: "# Title\n\ncontent\n" },
+    { text: "* item", options: {}, expected: "- item\n" },
+    {
+      text: "aaa bbb ccc",
+      options: { proseWrap: "always", printWidth: 5 },
+      expected: "aaa\nbbb\nccc\n",
+    },
+  ] as const)("Text: $text", async ({ text, options, expected }, { expect }) => {
+    const formatter = new Formatter(MockPlugin());
+
+    expect(await formatter.formatText(text, "note.md", options)).toBe(expected);
+  });
+
+  test.concurrent("Options take precedence", async ({ expect }) => {
+    const plugin = MockPlugin({
+      frontmatter: { "prettier-options": { proseWrap: "always", printWidth: 5 } },
+    });
+    const formatter = new Formatter(plugin);
+
+    const output = await formatter.formatText("aaa bbb ccc", "note.md", { proseWrap: "preserve" });
+
+    expect(output).toBe("aaa bbb ccc\n");
+  });
+
+  test.concurrent("Numbering is not recorded", async ({ expect }) => {
+    const file = MockFile("note.md");
+    const plugin = MockPlugin({ settings: { autoNumbering: true }, file });
+    vi.mocked(plugin.app.vault.getFileByPath).mockReturnValue(file);
+    plugin.numberedHeadings = {};
+    const api = createApi(new Formatter(plugin));
+
+    const output = await api.formatText("# Title", { path: file.path });
+
+    expect(output).toBe("# 1. Title\n");
+    expect(plugin.numberedHeadings).toEqual({});
+  });
+});
+
 describe.concurrent("Remove extra spaces", async () => {
   const cwd = resolve("./fixtures/remove-extra-spaces");
   const files = await prepare(
@@ -317,9 +511,9 @@ describe.concurrent("Remove extra spaces", async () => {
     const { base, name, content, cursor } = x;
 
     if (name.startsWith("no-cursor")) {
-      formatter.removeExtraSpaces(content);
+      await formatter.removeExtraSpaces(content);
     } else {
-      content.insert(formatter.removeExtraSpaces(content, cursor), CURSOR);
+      content.insert(await formatter.removeExtraSpaces(content, cursor), CURSOR);
     }
 
     await expect(content.current).toMatchFileSnapshot(resolve(cwd, "output", base));
@@ -338,9 +532,9 @@ describe.concurrent("Add trailing spaces", async () => {
     const { base, name, content, cursor } = x;
 
     if (name.startsWith("no-cursor")) {
-      formatter.addTrailingSpaces(content);
+      await formatter.addTrailingSpaces(content);
     } else {
-      content.insert(formatter.addTrailingSpaces(content, cursor), CURSOR);
+      content.insert(await formatter.addTrailingSpaces(content, cursor), CURSOR);
     }
 
     await expect(content.current).toMatchFileSnapshot(resolve(cwd, "output", base));
@@ -361,9 +555,9 @@ describe.concurrent("Format content", () => {
       const formatter = new Formatter(MockPlugin());
 
       await formatter.formatContent(editor, MockFile());
-      const formatted = new MagicString(MockEditor.setValue.mock.lastCall?.[0]);
-      const position = MockEditor.setCursor.mock.lastCall?.[0];
-      formatted.insert(formatted.positionToOffset(position), CURSOR);
+      const { output, position } = applyTransaction(content.current);
+      const formatted = new MagicString(output);
+      formatted.insert(formatted.positionToOffset(position!), CURSOR);
 
       await expect(formatted.current).toMatchFileSnapshot(resolve(subCwd, "output", base));
     }
@@ -388,15 +582,40 @@ describe.concurrent("Format content", () => {
       );
 
       await formatter.formatContent(editor, MockFile());
-      const formatted = new MagicString(MockEditor.setValue.mock.lastCall?.[0]);
-      const position = MockEditor.setCursor.mock.lastCall?.[0];
-      formatted.insert(formatted.positionToOffset(position), CURSOR);
+      const { output, position } = applyTransaction(content.current);
+      const formatted = new MagicString(output);
+      formatted.insert(formatted.positionToOffset(position!), CURSOR);
 
       await expect(formatted.current).toMatchFileSnapshot(resolve(subCwd, "output", base));
     }
   });
 });
 
+// Not concurrent, since mocks are restored whenever another test starts.
+test("Format content with minimal changes", async ({ expect }) => {
+  const minimalEditor = {
+    ...MockEditor,
+    getValue: vi.fn(() => "a\n\n\n\nb\n"),
+    setValue: vi.fn(),
+    listSelections: vi.fn(() => [
+      { anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 0 } },
+      { anchor: { line: 4, ch: 0 }, head: { line: 4, ch: 1 } },
+    ]),
+    transaction: vi.fn(),
+  };
+
+  const formatter = new Formatter(MockPlugin());
+
+  await formatter.formatContent(minimalEditor as unknown as Editor, MockFile());
+  const transaction: EditorTransaction = minimalEditor.transaction.mock.lastCall?.[0];
+
+  expect(minimalEditor.setValue).not.toBeCalled();
+  expect(transaction.changes).toEqual([
+    { from: { line: 2, ch: 0 }, to: { line: 4, ch: 0 }, text: "" },
+  ]);
+  expect(transaction.selection).toBeUndefined();
+});
+
 describe.concurrent("Format selection", () => {
   const cwd = resolve("./fixtures/format-selection");
 
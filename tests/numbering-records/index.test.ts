@@ -0,0 +1,75 @@
+import { NumberingRecords } from "@/numbering-records";
+
+import type PrettierPlugin from "@/main";
+import type { NumberedHeadingsData } from "@/model";
+
+const RECORDS = [{ prefix: "1. ", text: "Heading" }];
+
+const MockPlugin = (numberedHeadings: NumberedHeadingsData) => {
+  const requestSave = vi.fn();
+  const plugin = { numberedHeadings, requestSave } as unknown as PrettierPlugin;
+
+  return { plugin, requestSave };
+};
+
+describe("Numbering records", () => {
+  test.concurrent.for([
+    {
+      name: "a note",
+      from: "a/note.md",
+      to: "b/note.md",
+      expected: ["b/note.md", "a/other.md", "ab/note.md"],
+    },
+    {
+      name: "a folder",
+      from: "a",
+      to: "b",
+      expected: ["ab/note.md", "b/note.md", "b/other.md"],
+    },
+    {
+      name: "a nested folder",
+      from: "a",
+      to: "c/d",
+      expected: ["ab/note.md", "c/d/note.md", "c/d/other.md"],
+    },
+  ])("Should move the records when renaming $name", ({ from, to, expected }, { expect }) => {
+    const { plugin, requestSave } = MockPlugin({
+      "a/note.md": RECORDS,
+      "a/other.md": RECORDS,
+      "ab/note.md": RECORDS,
+    });
+
+    new NumberingRecords(plugin).rename(from, to);
+
+    expect(Object.keys(plugin.numberedHeadings).toSorted()).toEqual(expected.toSorted());
+    expect(requestSave).toHaveBeenCalledOnce();
+  });
+
+  test.concurrent.for([
+    { name: "a note", path: "a/note.md", expected: ["a/other.md", "ab/note.md"] },
+    { name: "a folder", path: "a", expected: ["ab/note.md"] },
+  ])("Should delete the records when deleting $name", ({ path, expected }, { expect }) => {
+    const { plugin, requestSave } = MockPlugin({
+      "a/note.md": RECORDS,
+      "a/other.md": RECORDS,
+      "ab/note.md": RECORDS,
+    });
+
+    new NumberingRecords(plugin).delete(path);
+
+    expect(Object.keys(plugin.numberedHeadings).toSorted()).toEqual(expected.toSorted());
+    expect(requestSave).toHaveBeenCalledOnce();
+  });
+
+  test.concurrent("Should not save without records to change", ({ expect }) => {
+    const { plugin, requestSave } = MockPlugin({ "a/note.md": RECORDS });
+    const records = new NumberingRecords(plugin);
+
+    records.rename("b", "c");
+    records.delete("b/note.md");
+    records.set("a/note.md", RECORDS);
+
+    expect(plugin.numberedHeadings).toEqual({ "a/note.md": RECORDS });
+    expect(requestSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { getDefaultSettings } from "@/model";
+import { Pipeline } from "@/pipeline";
+import { MagicString } from "@/utils/string";
+
+import type { Settings } from "@/model";
+import type { Step, StepContext } from "@/pipeline";
+import type { TFile } from "obsidian";
+
+const MockStep = (id: string, scope: Step["scope"] = "both"): Step => ({
+  id,
+  name: id,
+  scope,
+  run: (content, offset) => content.append(id, offset),
+});
+
+const MockContext = (settings: Settings, scope: StepContext["scope"] = "document") => ({
+  file: {} as TFile,
+  scope,
+  settings,
+});
+
+describe.concurrent("Pipeline", () => {
+  test.concurrent("Register and unregister", ({ expect }) => {
+    const pipeline = new Pipeline(getDefaultSettings());
+
+    const unregister = pipeline.register(MockStep("a"));
+    expect(() => pipeline.register(MockStep("a"))).toThrowError();
+
+    unregister();
+    expect(pipeline.getSteps()).toEqual([]);
+  });
+
+  test.concurrent.for([
+    { steps: [], expected: "abc" },
+    { steps: [{ id: "c", enabled: true }], expected: "cab" },
+    {
+      steps: [
+        { id: "b", enabled: true },
+        { id: "a", enabled: false },
+      ],
+      expected: "bc",
+    },
+    {
+      steps: [
+        { id: "x", enabled: true },
+        { id: "c", enabled: true },
+        { id: "b", enabled: true },
+        { id: "a", enabled: true },
+      ],
+      expected: "cba",
+    },
+  ])("Order and enable: $expected", async ({ steps, expected }, { expect }) => {
+    const settings = { ...getDefaultSettings(), steps };
+    const pipeline = new Pipeline(settings);
+    ["a", "b", "c"].forEach(id => pipeline.register(MockStep(id)));
+
+    const content = new MagicString("");
+    await pipeline.run(content, -1, MockContext(settings));
+
+    expect(content.current).toBe(expected);
+  });
+
+  test.concurrent.for([
+    { scope: "document", expected: "ab" },
+    { scope: "selection", expected: "ac" },
+  ] as const)("Scope: $scope", async ({ scope, expected }, { expect }) => {
+    const settings = { ...getDefaultSettings(), steps: [] };
+    const pipeline = new Pipeline(settings);
+    pipeline.register(MockStep("a", "both"));
+    pipeline.register(MockStep("b", "document"));
+    pipeline.register(MockStep("c", "selection"));
+
+    const content = new MagicString("");
+    await pipeline.run(content, -1, MockContext(settings, scope));
+
+    expect(content.current).toBe(expected);
+  });
+
+  test.concurrent("Cursor offset", async ({ expect }) => {
+    const settings = { ...getDefaultSettings(), steps: [] };
+    const pipeline = new Pipeline(settings);
+    pipeline.register({ ...MockStep("a"), run: (content, offset) => content.prepend("a", offset) });
+    pipeline.register({ ...MockStep("b"), run: (content, offset) => content.prepend("b", offset) });
+
+    const content = new MagicString("xx");
+
+    expect(await pipeline.run(content, 1, MockContext(settings))).toBe(3);
+  });
+});
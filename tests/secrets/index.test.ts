@@ -0,0 +1,44 @@
+import { getDefaultSettings } from "@/model";
+import { hasSecrets, mergeSecrets, splitSecrets } from "@/secrets";
+
+const MockSettings = () => {
+  const settings = getDefaultSettings();
+  settings.tencentCos = { ...settings.tencentCos, secretId: "id", secretKey: "key", bucket: "b" };
+  settings.s3 = { ...settings.s3, secretAccessKey: "secret" };
+  settings.httpUpload = { ...settings.httpUpload, headers: '{ "Authorization": "Bearer token" }' };
+
+  return settings;
+};
+
+describe("Secrets", () => {
+  test.concurrent("Split secrets from settings", ({ expect }) => {
+    const original = MockSettings();
+    const { settings, secrets } = splitSecrets(original);
+
+    expect(secrets).toEqual({
+      "tencentCos.secretId": "id",
+      "tencentCos.secretKey": "key",
+      "s3.secretAccessKey": "secret",
+      "httpUpload.headers": '{ "Authorization": "Bearer token" }',
+    });
+    expect(settings.tencentCos).toEqual({ ...original.tencentCos, secretId: "", secretKey: "" });
+    expect(settings.httpUpload.headers).toBe("");
+    expect(hasSecrets(settings)).toBe(false);
+    // The settings in use are not changed
+    expect(original.tencentCos.secretKey).toBe("key");
+  });
+
+  test.concurrent("Merge secrets into settings", ({ expect }) => {
+    const { settings, secrets } = splitSecrets(MockSettings());
+
+    expect(mergeSecrets(settings, secrets)).toEqual(MockSettings());
+  });
+
+  test.concurrent("Keep secrets from older versions", ({ expect }) => {
+    const settings = mergeSecrets(MockSettings(), { "s3.secretAccessKey": "new" });
+
+    expect(hasSecrets(settings)).toBe(true);
+    expect(settings.tencentCos.secretKey).toBe("key");
+    expect(settings.s3.secretAccessKey).toBe("new");
+  });
+});
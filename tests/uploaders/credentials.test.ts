@@ -0,0 +1,63 @@
+import { parseCredentials } from "@/uploaders/credentials";
+
+describe("Parse credentials", () => {
+  test.concurrent.for([
+    {
+      name: "Tencent Cloud STS",
+      json: {
+        Response: {
+          Credentials: { TmpSecretId: "id", TmpSecretKey: "key", Token: "token" },
+          ExpiredTime: 1700000000,
+          Expiration: "2023-11-14T22:13:20Z",
+        },
+      },
+    },
+    {
+      name: "Tencent Cloud STS SDK",
+      json: {
+        credentials: { tmpSecretId: "id", tmpSecretKey: "key", sessionToken: "token" },
+        expiredTime: 1700000000,
+      },
+    },
+    {
+      name: "AWS STS",
+      json: {
+        Credentials: {
+          AccessKeyId: "id",
+          SecretAccessKey: "key",
+          SessionToken: "token",
+          Expiration: "2023-11-14T22:13:20Z",
+        },
+      },
+    },
+    {
+      name: "Aliyun STS",
+      json: {
+        RequestId: "",
+        Credentials: {
+          AccessKeyId: "id",
+          AccessKeySecret: "key",
+          SecurityToken: "token",
+          Expiration: "2023-11-14T22:13:20Z",
+        },
+      },
+    },
+  ])("$name", ({ json }, { expect }) => {
+    expect(parseCredentials(json)).toEqual({
+      credentials: { accessKeyId: "id", secretAccessKey: "key", sessionToken: "token" },
+      expiration: 1700000000000,
+    });
+  });
+
+  test.concurrent("Without session token and expiration", ({ expect }) => {
+    expect(parseCredentials({ accessKeyId: "id", secretAccessKey: "key" })).toEqual({
+      credentials: { accessKeyId: "id", secretAccessKey: "key" },
+      expiration: 0,
+    });
+  });
+
+  test.concurrent("Missing credentials", ({ expect }) => {
+    expect(() => parseCredentials({ Credentials: { AccessKeyId: "id" } })).toThrowError();
+    expect(() => parseCredentials(null)).toThrowError();
+  });
+});
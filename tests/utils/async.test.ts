@@ -0,0 +1,82 @@
+import { mapConcurrent, retry, withTimeout } from "@/utils/async";
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const delayed = async <T>(value: T, ms: number) => {
+  await wait(ms);
+
+  return value;
+};
+
+describe("Map concurrent", () => {
+  test.concurrent.for([1, 2, 5, 10])("Limit: %i", async (limit, { expect }) => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapConcurrent([5, 1, 4, 2, 3], limit, async (item, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await wait(item);
+      running--;
+
+      return item * 10 + index;
+    });
+
+    expect(results).toEqual([50, 11, 42, 23, 34]);
+    expect(maxRunning).toBe(Math.min(limit, 5));
+  });
+
+  test.concurrent("Empty items", async ({ expect }) => {
+    expect(await mapConcurrent([], 3, async () => 1)).toEqual([]);
+  });
+});
+
+describe("Retry", () => {
+  test.concurrent("Retry until success", async ({ expect }) => {
+    const task = vi.fn(async (attempt: number) => {
+      if (attempt < 2) throw new Error("Transient");
+
+      return attempt;
+    });
+
+    const result = await retry(task, { retries: 3, delay: 1, shouldRetry: () => true });
+
+    expect(result).toBe(2);
+    expect(task).toBeCalledTimes(3);
+  });
+
+  test.concurrent("Stop after the last retry", async ({ expect }) => {
+    const task = vi.fn(async () => {
+      throw new Error("Transient");
+    });
+
+    await expect(retry(task, { retries: 2, delay: 1, shouldRetry: () => true })).rejects.toThrow(
+      "Transient",
+    );
+    expect(task).toBeCalledTimes(3);
+  });
+
+  test.concurrent("Do not retry other errors", async ({ expect }) => {
+    const task = vi.fn(async () => {
+      throw new Error("Permanent");
+    });
+
+    await expect(retry(task, { retries: 2, delay: 1, shouldRetry: () => false })).rejects.toThrow(
+      "Permanent",
+    );
+    expect(task).toBeCalledTimes(1);
+  });
+});
+
+describe("With timeout", () => {
+  test.concurrent("Resolve in time", async ({ expect }) => {
+    expect(await withTimeout(delayed("done", 1), 1000, "Timed out.")).toBe("done");
+  });
+
+  test.concurrent("Reject when timed out", async ({ expect }) => {
+    await expect(withTimeout(wait(1000), 1, "Timed out.")).rejects.toThrow("Timed out.");
+  });
+
+  test.concurrent("No timeout", async ({ expect }) => {
+    expect(await withTimeout(delayed("done", 10), 0, "Timed out.")).toBe("done");
+  });
+});
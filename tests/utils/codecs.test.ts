@@ -0,0 +1,21 @@
+import { encodePixels } from "@/utils/codecs";
+
+const text = (data: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...data.subarray(start, end));
+
+describe("Encode pixels", () => {
+  const pixels = { data: new Uint8ClampedArray(8 * 8 * 4).fill(200), width: 8, height: 8 };
+
+  test.concurrent("Encode to WebP", async ({ expect }) => {
+    const data = await encodePixels(pixels, "webp", 80);
+
+    expect(text(data, 0, 4)).toBe("RIFF");
+    expect(text(data, 8, 12)).toBe("WEBP");
+  });
+
+  test.concurrent("Encode to AVIF", async ({ expect }) => {
+    const data = await encodePixels(pixels, "avif", 80);
+
+    expect(text(data, 4, 12)).toBe("ftypavif");
+  });
+});
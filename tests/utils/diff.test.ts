@@ -0,0 +1,100 @@
+import { applyHunks, diffLines, splitLines } from "@/utils/diff";
+import { MagicString } from "@/utils/string";
+
+const input = `
+a
+b
+c
+d
+e
+`.trim();
+
+describe("Split lines", () => {
+  test.concurrent.for([
+    { text: "", expected: [] },
+    { text: "a", expected: ["a"] },
+    { text: "a\n", expected: ["a\n"] },
+    { text: "a\nb", expected: ["a\n", "b"] },
+    { text: "a\n\nb\n", expected: ["a\n", "\n", "b\n"] },
+  ])("Split text: $text", ({ text, expected }, { expect }) => {
+    expect(splitLines(text)).toEqual(expected);
+  });
+});
+
+describe("Diff lines", () => {
+  test.concurrent("Same text", ({ expect }) => {
+    expect(diffLines(input, input)).toEqual([]);
+  });
+
+  test.concurrent.for([
+    {
+      modified: "a\nx\nc\nd\ne",
+      expected: [{ start: 2, end: 4, line: 1, removed: ["b\n"], added: ["x\n"] }],
+    },
+    {
+      modified: "a\nb\nc\nd\ne\nf",
+      expected: [{ start: 8, end: 9, line: 4, removed: ["e"], added: ["e\n", "f"] }],
+    },
+    {
+      modified: "b\nc\nd\ne",
+      expected: [{ start: 0, end: 2, line: 0, removed: ["a\n"], added: [] }],
+    },
+    {
+      modified: "x\na\nb\nd\ne",
+      expected: [
+        { start: 0, end: 0, line: 0, removed: [], added: ["x\n"] },
+        { start: 4, end: 6, line: 2, removed: ["c\n"], added: [] },
+      ],
+    },
+  ])("Diff case: %#", ({ modified, expected }, { expect }) => {
+    expect(diffLines(input, modified)).toEqual(expected);
+  });
+});
+
+describe("Apply hunks", () => {
+  test.concurrent.for([
+    "a\nx\nc\nd\ne",
+    "a\nb\nc\nd\ne\n",
+    "x\na\nb\nd\ne",
+    "",
+    "e\nd\nc\nb\na",
+  ])("Apply all hunks: %#", (modified, { expect }) => {
+    const text = new MagicString(input);
+    applyHunks(text, diffLines(input, modified));
+
+    expect(text.current).toBe(modified);
+  });
+
+  test.concurrent("Apply hunks of a long text", ({ expect }) => {
+    const lines = Array.from({ length: 5000 }, (_, i) => `${i}\n`);
+    const original = lines.join("");
+    const modified = lines
+      .map((line, i) => (i % 3 === 0 ? `x${line}` : line))
+      .toReversed()
+      .join("");
+
+    const text = new MagicString(original);
+    applyHunks(text, diffLines(original, modified));
+
+    expect(text.current).toBe(modified);
+  });
+
+  test.concurrent("Apply some hunks", ({ expect }) => {
+    const text = new MagicString(input);
+    const [first] = diffLines(input, "x\na\nb\nd\ne");
+    applyHunks(text, [first!]);
+
+    expect(text.current).toBe("x\na\nb\nc\nd\ne");
+  });
+
+  test.concurrent.for([
+    { offset: 0, expected: 2 },
+    { offset: 4, expected: 6 },
+    { offset: 9, expected: 11 },
+  ])("Apply with offset: $offset", ({ offset, expected }, { expect }) => {
+    const text = new MagicString(input);
+    const hunks = diffLines(input, "x\na\nb\nc\nd\ne");
+
+    expect(applyHunks(text, hunks, offset)).toBe(expected);
+  });
+});
@@ -0,0 +1,37 @@
+import { findReferencedUrls, getRelativePath } from "@/utils/file";
+
+describe("Relative path", () => {
+  test.concurrent.for([
+    { from: "Note.md", to: "attachments/image.png", expected: "attachments/image.png" },
+    { from: "Journal/Note.md", to: "Journal/image.png", expected: "image.png" },
+    { from: "Journal/Note.md", to: "attachments/image.png", expected: "../attachments/image.png" },
+    { from: "a/b/Note.md", to: "a/c/image.png", expected: "../c/image.png" },
+    { from: "a/b/Note.md", to: "image.png", expected: "../../image.png" },
+    { from: "a/Note.md", to: "a/b/image.png", expected: "b/image.png" },
+  ])("From $from to $to", ({ from, to, expected }, { expect }) => {
+    expect(getRelativePath(from, to)).toBe(expected);
+  });
+});
+
+describe("Referenced URLs", () => {
+  const used = "https://example.com/used.png";
+  const unused = "https://example.com/unused.png";
+  const escaped = 'https://example.com/"quoted".png';
+  const canvas = JSON.stringify({
+    nodes: [
+      { id: "1", type: "text", text: `![](${used})` },
+      { id: "2", type: "link", url: escaped },
+    ],
+    edges: [],
+  });
+
+  test.concurrent.for([
+    { extension: "md", content: `![](${used})`, expected: [used] },
+    { extension: "canvas", content: canvas, expected: [used, escaped] },
+    { extension: "canvas", content: `{"text": "${used}"`, expected: [used] },
+  ])("In $extension", ({ extension, content, expected }, { expect }) => {
+    const urls = findReferencedUrls([used, unused, escaped], extension, content);
+
+    expect([...urls]).toEqual(expected);
+  });
+});
@@ -0,0 +1,79 @@
+import { createHeadingRenames, renameSubpath, rewriteLink } from "@/utils/heading-links";
+
+const toHeadings = (texts: string[]) => texts.map(text => ({ text }));
+
+describe("Create heading renames", () => {
+  test.concurrent.for([
+    {
+      name: "numbering added",
+      before: ["Intro", "Usage ##"],
+      after: ["1. Intro", "2. Usage"],
+      expected: [
+        ["intro", "1. Intro"],
+        ["usage", "2. Usage"],
+      ],
+    },
+    {
+      name: "numbering removed",
+      before: ["1. Intro", "1.1 Background"],
+      after: ["Intro", "Background"],
+      expected: [
+        ["1 intro", "Intro"],
+        ["1 1 background", "Background"],
+      ],
+    },
+    {
+      name: "unchanged headings",
+      before: ["Intro", "Foo: bar"],
+      after: ["Intro", "Foo bar"],
+      expected: [],
+    },
+    {
+      name: "duplicate headings",
+      before: ["Examples", "Examples"],
+      after: ["Examples", "2. Examples"],
+      expected: [],
+    },
+    {
+      name: "headings added",
+      before: ["Intro"],
+      after: ["1. New", "2. Intro"],
+      expected: [],
+    },
+  ])("Create heading renames: $name", ({ before, after, expected }, { expect }) => {
+    expect([...createHeadingRenames(toHeadings(before), toHeadings(after))]).toEqual(expected);
+  });
+});
+
+describe("Rename subpath", () => {
+  const renames = new Map([
+    ["intro", "1. Intro"],
+    ["background", "1.1 Background: history"],
+  ]);
+
+  test.concurrent.for([
+    { subpath: "Intro", expected: "1. Intro" },
+    { subpath: "intro", expected: "1. Intro" },
+    { subpath: "Intro#Background", expected: "1. Intro#1.1 Background history" },
+    { subpath: "^block", expected: null },
+    { subpath: "Usage", expected: null },
+  ])("Rename subpath: $subpath", ({ subpath, expected }, { expect }) => {
+    expect(renameSubpath(subpath, renames)).toBe(expected);
+  });
+});
+
+describe("Rewrite link", () => {
+  const renames = new Map([["intro", "1. Intro"]]);
+
+  test.concurrent.for([
+    { source: "[[Note#Intro]]", expected: "[[Note#1. Intro]]" },
+    { source: "![[Note#Intro|alias]]", expected: "![[Note#1. Intro|alias]]" },
+    { source: "[[#Intro]]", expected: "[[#1. Intro]]" },
+    { source: "[a](Note.md#Intro)", expected: "[a](Note.md#1.%20Intro)" },
+    { source: "[a](<Note.md#Intro>)", expected: "[a](<Note.md#1. Intro>)" },
+    { source: "[[Note]]", expected: null },
+    { source: "[[Note#Usage]]", expected: null },
+  ])("Rewrite link: $source", ({ source, expected }, { expect }) => {
+    expect(rewriteLink(source, renames)).toBe(expected);
+  });
+});
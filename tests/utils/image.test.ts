@@ -0,0 +1,115 @@
+import {
+  getJpegOrientation,
+  getResizedSize,
+  stripJpegMetadata,
+  stripPngMetadata,
+} from "@/utils/image";
+
+const bytes = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const jpegSegment = (marker: number, payload: number[]) => [
+  0xff,
+  marker,
+  (payload.length + 2) >> 8,
+  (payload.length + 2) & 0xff,
+  ...payload,
+];
+
+const hex = (text: string) =>
+  Array.from(text.replace(/\s/g, "").matchAll(/../g), ([byte]) => parseInt(byte!, 16));
+
+// TIFF header, IFD with the orientation entry only and the offset of the next IFD
+const exif = (orientation: number, littleEndian: boolean) => [
+  ...bytes("Exif\0\0"),
+  ...(littleEndian
+    ? hex(`4949 2a00 08000000 0100 1201 0300 01000000 0${orientation}00 0000 00000000`)
+    : hex(`4d4d 002a 00000008 0001 0112 0003 00000001 000${orientation} 0000 00000000`)),
+];
+
+const SOI = [0xff, 0xd8];
+const JFIF = jpegSegment(0xe0, bytes("JFIF\0"));
+const ICC = jpegSegment(0xe2, bytes("ICC_PROFILE\0"));
+const COMMENT = jpegSegment(0xfe, bytes("comment"));
+// Start of scan and the compressed data, which may contain any bytes
+const SCAN = [0xff, 0xda, 0, 2, 0xff, 0xe1, 0x12, 0xff, 0xd9];
+
+// Length, type, data and CRC, which is not checked
+const pngChunk = (type: string, data: number[]) => [
+  ...hex(data.length.toString(16).padStart(8, "0")),
+  ...bytes(type),
+  ...data,
+  ...hex("00000000"),
+];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const IHDR = pngChunk("IHDR", new Array(13).fill(1));
+const IDAT = pngChunk("IDAT", [1, 2, 3]);
+const IEND = pngChunk("IEND", []);
+
+describe("Strip JPEG metadata", () => {
+  test.concurrent("Remove EXIF and comments, keep the ICC profile", ({ expect }) => {
+    const jpeg = new Uint8Array([
+      ...SOI,
+      ...JFIF,
+      ...jpegSegment(0xe1, exif(6, false)),
+      ...ICC,
+      ...COMMENT,
+      ...SCAN,
+    ]);
+
+    expect(Array.from(stripJpegMetadata(jpeg))).toEqual([...SOI, ...JFIF, ...ICC, ...SCAN]);
+  });
+
+  test.concurrent("Keep JPEG without metadata as is", ({ expect }) => {
+    const jpeg = new Uint8Array([...SOI, ...JFIF, ...SCAN]);
+
+    expect(Array.from(stripJpegMetadata(jpeg))).toEqual(Array.from(jpeg));
+  });
+});
+
+describe("JPEG orientation", () => {
+  test.concurrent.for([
+    { name: "big endian", segments: jpegSegment(0xe1, exif(6, false)), expected: 6 },
+    { name: "little endian", segments: jpegSegment(0xe1, exif(8, true)), expected: 8 },
+    { name: "without EXIF", segments: JFIF, expected: 1 },
+  ])("Read orientation: $name", ({ segments, expected }, { expect }) => {
+    const jpeg = new Uint8Array([...SOI, ...segments, ...SCAN]);
+
+    expect(getJpegOrientation(jpeg)).toBe(expected);
+  });
+});
+
+describe("Strip PNG metadata", () => {
+  test.concurrent("Remove text, EXIF and time chunks", ({ expect }) => {
+    const png = new Uint8Array([
+      ...PNG_SIGNATURE,
+      ...IHDR,
+      ...pngChunk("tEXt", bytes("Software\0Snipaste")),
+      ...pngChunk("eXIf", [1, 2]),
+      ...IDAT,
+      ...pngChunk("tIME", [7, 232, 1, 1, 0, 0, 0]),
+      ...IEND,
+    ]);
+
+    expect(Array.from(stripPngMetadata(png))).toEqual([
+      ...PNG_SIGNATURE,
+      ...IHDR,
+      ...IDAT,
+      ...IEND,
+    ]);
+  });
+});
+
+describe("Resized size", () => {
+  test.concurrent.for([
+    { width: 3840, height: 2160, maxWidth: 1920, expected: { width: 1920, height: 1080 } },
+    { width: 1000, height: 3, maxWidth: 100, expected: { width: 100, height: 1 } },
+    { width: 800, height: 600, maxWidth: 1920, expected: { width: 800, height: 600 } },
+    { width: 3840, height: 2160, maxWidth: 0, expected: { width: 3840, height: 2160 } },
+  ])(
+    "Resize $width x $height to $maxWidth",
+    ({ width, height, maxWidth, expected }, { expect }) => {
+      expect(getResizedSize(width, height, maxWidth)).toEqual(expected);
+    },
+  );
+});
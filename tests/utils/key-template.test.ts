@@ -0,0 +1,58 @@
+import { renderKeyTemplate, sanitizeKey } from "@/utils/key-template";
+
+import type { KeyContext } from "@/utils/key-template";
+
+const context: KeyContext = {
+  vault: "My Vault",
+  notePath: "Journal/2024/Café Note.md",
+  filename: "Screen Shot 1.PNG",
+  hash: "e3b0c44298fc1c149afbf4c8996fb924",
+  date: new Date(2024, 0, 5, 9, 8, 7),
+};
+
+describe("Sanitize key", () => {
+  test.concurrent.for([
+    { key: "a/b/c.png", expected: "a/b/c.png" },
+    { key: "a b/c  d.png", expected: "a-b/c-d.png" },
+    { key: "Café/naïve.png", expected: "Cafe/naive.png" },
+    { key: "日记/截图 1.png", expected: "1.png" },
+    { key: "../a//b/.hidden", expected: "a/b/hidden" },
+  ])("Sanitize key: $key", ({ key, expected }, { expect }) => {
+    expect(sanitizeKey(key)).toBe(expected);
+  });
+});
+
+describe("Render key template", () => {
+  test.concurrent.for([
+    {
+      template: "obsidian/{timestamp}_{filename}.{ext}",
+      expected: `obsidian/${context.date.getTime()}_Screen-Shot-1.png`,
+    },
+    {
+      template: "{vault}/{notePath}/{yyyy}{MM}{dd}-{hash:8}.{ext}",
+      expected: "My-Vault/Journal/2024/Cafe-Note/20240105-e3b0c442.png",
+    },
+    {
+      template: "{noteName}/{HH}{mm}{ss}-{hash}",
+      expected: "Cafe-Note/090807-e3b0c44298fc1c149afbf4c8996fb924",
+    },
+    {
+      template: "{unknown}/{filename}.{ext}",
+      expected: "unknown/Screen-Shot-1.png",
+    },
+  ])("Render template: $template", ({ template, expected }, { expect }) => {
+    expect(renderKeyTemplate(template, context)).toBe(expected);
+  });
+
+  test.concurrent("Fall back to the hash for names without safe characters", ({ expect }) => {
+    const key = renderKeyTemplate("{filename}.{ext}", { ...context, filename: "截图.png" });
+
+    expect(key).toBe("e3b0c442.png");
+  });
+
+  test.concurrent("File name without extension", ({ expect }) => {
+    const key = renderKeyTemplate("{filename}.{ext}", { ...context, filename: "image" });
+
+    expect(key).toBe("image");
+  });
+});
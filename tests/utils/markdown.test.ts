@@ -0,0 +1,164 @@
+import { MarkdownDocument, findImages, parseLink, toMarkdownImage } from "@/utils/markdown";
+import { MagicString } from "@/utils/string";
+
+describe("Find images", () => {
+  test.concurrent.for([
+    { text: "![a](a.png)", expected: [["image", "a.png", "a", "a.png"]] },
+    { text: "![a|300](a.png)", expected: [["image", "a.png", "a|300", "a.png"]] },
+    { text: '![a](a.png "title")', expected: [["image", "a.png", "a", "a.png"]] },
+    { text: "![a](<a (1).png>)", expected: [["image", "a (1).png", "a", "a (1).png"]] },
+    { text: "![a](a(1).png)", expected: [["image", "a(1).png", "a", "a(1).png"]] },
+    { text: "![[a.png]]", expected: [["wikilink", "a.png", "", "a.png"]] },
+    { text: "![[a b.png|alt|300]]", expected: [["wikilink", "a b.png", "alt|300", "a b.png"]] },
+    { text: "![[a.png|300]]", expected: [["wikilink", "a.png", "300", "a.png"]] },
+    { text: "![[Note]]", expected: [] },
+    { text: "![[Note#Heading]]", expected: [] },
+    { text: "![[a.pdf|300]]", expected: [] },
+    { text: "[[a.png]]", expected: [] },
+    {
+      text: "![a][id]\n\n[id]: https://example.com/a.png",
+      expected: [["reference", "https://example.com/a.png", "a", "https://example.com/a.png"]],
+    },
+    { text: "[a][id]\n\n[id]: a.png", expected: [] },
+    { text: '<img width="300" src="a.png">', expected: [["html", "a.png", "", "a.png"]] },
+    { text: "`![a](a.png)`", expected: [] },
+    { text: "```\n![a](a.png)\n```", expected: [] },
+    { text: "$$\n![a](a.png)\n$$", expected: [] },
+  ])("Find images: $text", async ({ text, expected }, { expect }) => {
+    const images = await findImages(text);
+
+    expect(
+      images.map(({ type, url, alt, urlStart, urlEnd }) => [
+        type,
+        url,
+        alt,
+        text.slice(urlStart, urlEnd),
+      ]),
+    ).toEqual(expected);
+  });
+
+  test.concurrent("Find the range of wikilink embeds", async ({ expect }) => {
+    const text = "a ![[a.png|300]] b";
+    const [image] = await findImages(text);
+
+    expect(text.slice(image!.start, image!.end)).toBe("![[a.png|300]]");
+  });
+});
+
+describe("To Markdown image", () => {
+  test.concurrent.for([
+    {
+      alt: "a|300",
+      url: "https://example.com/a.png",
+      expected: "![a|300](https://example.com/a.png)",
+    },
+    { alt: "", url: "a b.png", expected: "![](<a b.png>)" },
+    { alt: "300", url: "a.png", expected: "![|300](a.png)" },
+    { alt: "300x200", url: "b.png", expected: "![|300x200](b.png)" },
+  ])("To Markdown image: $url", ({ alt, url, expected }, { expect }) => {
+    expect(toMarkdownImage(alt, url)).toBe(expected);
+  });
+});
+
+describe("Markdown document", () => {
+  test.concurrent.for([
+    {
+      text: "# A\n\n## B",
+      expected: [
+        [1, "A", "A"],
+        [2, "B", "B"],
+      ],
+    },
+    { text: "  ###   C ##", expected: [[3, "C ##", "C ##"]] },
+    {
+      text: "A\n===\n\nB\n---",
+      expected: [
+        [1, "A", "A"],
+        [2, "B", "B"],
+      ],
+    },
+    { text: "#A", expected: [] },
+    { text: "```\n# A\n```\n# B", expected: [[1, "B", "B"]] },
+    { text: "~~~\n# A\n~~~\n# B", expected: [[1, "B", "B"]] },
+    { text: "````\n```\n# A\n````\n# B", expected: [[1, "B", "B"]] },
+    { text: "A\n\n    # B", expected: [] },
+    { text: "---\n# A\n---\n# B", expected: [[1, "B", "B"]] },
+    { text: "$$\n# A\n$$\n# B", expected: [[1, "B", "B"]] },
+    { text: "<div>\n# A\n</div>\n\n# B", expected: [[1, "B", "B"]] },
+    { text: "> # A\n\n> [!note]\n> # B", expected: [] },
+  ])("Headings: $text", async ({ text, expected }, { expect }) => {
+    const { headings } = await MarkdownDocument.parse(text);
+
+    expect(
+      headings.map(({ level, text: heading, start, end }) => [
+        level,
+        heading,
+        text.slice(start, end),
+      ]),
+    ).toEqual(expected);
+  });
+
+  test.concurrent.for([
+    { text: "[[a#b]] and [[#c|d]]", expected: ["[[a#b]]", "[[#c|d]]"] },
+    { text: "![[a#b]]", expected: ["[[a#b]]"] },
+    { text: "[a](a.md#b) ![c](c.png)", expected: ["[a](a.md#b)", "![c](c.png)"] },
+    { text: "`[[a#b]]`", expected: [] },
+    { text: "```\n[a](#b)\n```", expected: [] },
+  ])("Links: $text", async ({ text, expected }, { expect }) => {
+    const { links } = await MarkdownDocument.parse(text);
+
+    expect(links.map(({ start, end }) => text.slice(start, end))).toEqual(expected);
+  });
+
+  test.concurrent.for([
+    { text: "- a\n\n```\n- b\n```", offset: 8, expected: true },
+    { text: "- a\n\n```\n- b\n```", offset: 2, expected: false },
+    { text: "---\ntags:\n  - a\n---", offset: 13, expected: true },
+    { text: "a `b` $c$", offset: 3, expected: true },
+    { text: "a `b` $c$", offset: 1, expected: false },
+  ])("Literal: $text at $offset", async ({ text, offset, expected }, { expect }) => {
+    const document = await MarkdownDocument.parse(text);
+
+    expect(document.isLiteral(offset)).toBe(expected);
+  });
+
+  test.concurrent("Update", async ({ expect }) => {
+    const content = new MagicString("## A\n\n[[#A]] [[#B]]\n\n### B");
+    const document = await MarkdownDocument.parse(content.current);
+
+    const [a, b] = document.headings;
+    document.update(content, a!.hashes, a!.hashes + 2, "#");
+    document.update(content, b!.start, b!.start, "1. ");
+    document.update(content, document.links[0]!.start, document.links[0]!.end, "[[#1. A]]");
+
+    expect(content.current).toBe("# A\n\n[[#1. A]] [[#B]]\n\n### 1. B");
+    expect(document.text).toBe(content.current);
+    expect(document.headings.map(({ level, text }) => [level, text])).toEqual([
+      [1, "A"],
+      [3, "1. B"],
+    ]);
+    expect(document.links.map(({ start, end }) => content.current.slice(start, end))).toEqual([
+      "[[#1. A]]",
+      "[[#B]]",
+    ]);
+  });
+});
+
+describe("Parse link", () => {
+  test.concurrent.for([
+    { source: "[[Note]]", expected: ["Note", "", ""] },
+    { source: "[[Note#Heading|alias]]", expected: ["Note", "Heading", "Heading"] },
+    { source: "![[#Heading#Sub]]", expected: ["", "Heading#Sub", "Heading#Sub"] },
+    { source: "[[Note#^block]]", expected: ["Note", "^block", "^block"] },
+    { source: "[a](Note%20A.md#1.%20Intro)", expected: ["Note A.md", "1. Intro", "1.%20Intro"] },
+    { source: "[a](<Note A.md#1. Intro>)", expected: ["Note A.md", "1. Intro", "1. Intro"] },
+    { source: '[a](#Intro "title")', expected: ["", "Intro", "Intro"] },
+    { source: "<https://example.com>", expected: null },
+  ])("Parse link: $source", ({ source, expected }, { expect }) => {
+    const link = parseLink(source);
+
+    expect(
+      link && [link.path, link.subpath, source.slice(link.subpathStart, link.subpathEnd)],
+    ).toEqual(expected);
+  });
+});
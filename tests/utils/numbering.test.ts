@@ -0,0 +1,198 @@
+import {
+  DEFAULT_NUMBERING_TEMPLATES,
+  numberHeadings,
+  removeNumbering,
+  renderNumbering,
+  toAlpha,
+  toChinese,
+  toRoman,
+} from "@/utils/numbering";
+
+import type { NumberedHeading, NumberingHeading, NumberingOptions } from "@/utils/numbering";
+
+const options: NumberingOptions = {
+  startLevel: 1,
+  endLevel: 6,
+  separator: ".",
+  templates: DEFAULT_NUMBERING_TEMPLATES,
+  exclude: [],
+};
+
+const apply = (
+  number: typeof numberHeadings,
+  headings: NumberingHeading[],
+  overrides: Partial<NumberingOptions> = {},
+  generated: NumberedHeading[] = [],
+) =>
+  number(headings, { ...options, ...overrides }, generated).map(
+    ({ existing, prefix }, index) => prefix + headings[index]!.text.slice(existing),
+  );
+
+describe("Numerals", () => {
+  test.concurrent.for([
+    { value: 1, roman: "I", alpha: "A", chinese: "一" },
+    { value: 4, roman: "IV", alpha: "D", chinese: "四" },
+    { value: 10, roman: "X", alpha: "J", chinese: "十" },
+    { value: 11, roman: "XI", alpha: "K", chinese: "十一" },
+    { value: 20, roman: "XX", alpha: "T", chinese: "二十" },
+    { value: 27, roman: "XXVII", alpha: "AA", chinese: "二十七" },
+    { value: 101, roman: "CI", alpha: "CW", chinese: "一百零一" },
+    { value: 110, roman: "CX", alpha: "DF", chinese: "一百一十" },
+    { value: 1994, roman: "MCMXCIV", alpha: "BXR", chinese: "一千九百九十四" },
+  ])("Numerals of $value", ({ value, roman, alpha, chinese }, { expect }) => {
+    expect(toRoman(value)).toBe(roman);
+    expect(toAlpha(value)).toBe(alpha);
+    expect(toChinese(value)).toBe(chinese);
+  });
+});
+
+describe("Render numbering", () => {
+  test.concurrent.for([
+    { template: "{path}.", counters: [1], separator: ".", expected: "1." },
+    { template: "{path}", counters: [1, 2, 3], separator: "-", expected: "1-2-3" },
+    { template: "{n:chinese}、", counters: [3], separator: ".", expected: "三、" },
+    { template: "（{n:chinese}）", counters: [1, 2], separator: ".", expected: "（二）" },
+    { template: "Part {n:upper-roman}", counters: [4], separator: ".", expected: "Part IV" },
+    { template: "{n:alpha})", counters: [1, 2], separator: ".", expected: "b)" },
+    { template: "{n:unknown}", counters: [1], separator: ".", expected: "{n:unknown}" },
+  ])("Render $template", ({ template, counters, separator, expected }, { expect }) => {
+    expect(renderNumbering(template, counters, separator)).toBe(expected);
+  });
+});
+
+describe("Number headings", () => {
+  test.concurrent.for([
+    {
+      name: "default templates",
+      headings: [
+        { level: 1, text: "Intro" },
+        { level: 2, text: "Background" },
+        { level: 3, text: "History" },
+        { level: 2, text: "Goals" },
+        { level: 1, text: "Usage" },
+      ],
+      overrides: {},
+      generated: [],
+      expected: ["1. Intro", "1.1 Background", "1.1.1 History", "1.2 Goals", "2. Usage"],
+    },
+    {
+      name: "recorded numbering",
+      headings: [
+        { level: 2, text: "3. Intro" },
+        { level: 3, text: "1.1.1 Background" },
+        { level: 2, text: "1 Usage" },
+      ],
+      overrides: {},
+      generated: [
+        { prefix: "3. ", text: "Intro" },
+        { prefix: "1.1.1 ", text: "Background" },
+        { prefix: "1 ", text: "Usage" },
+      ],
+      expected: ["1. Intro", "1.1 Background", "2. Usage"],
+    },
+    {
+      name: "headings starting with numbers",
+      headings: [
+        { level: 1, text: "2024 Goals" },
+        { level: 2, text: "1.1 Background" },
+        { level: 2, text: "3.5 release notes" },
+        { level: 1, text: "2.Usage" },
+      ],
+      overrides: {},
+      generated: [{ prefix: "3.5 ", text: "Notes" }],
+      expected: ["1. 2024 Goals", "1.1 Background", "1.2 3.5 release notes", "2. 2.Usage"],
+    },
+    {
+      name: "Chinese numerals",
+      headings: [
+        { level: 1, text: "概述" },
+        { level: 2, text: "背景" },
+        { level: 3, text: "历史" },
+        { level: 1, text: "二、用法" },
+      ],
+      overrides: { templates: ["{n:chinese}、", "（{n:chinese}）", "{path}"] },
+      generated: [],
+      expected: ["一、概述", "（一）背景", "1.1.1 历史", "二、用法"],
+    },
+    {
+      name: "switched templates",
+      headings: [
+        { level: 1, text: "1. Intro" },
+        { level: 2, text: "1.1 Background" },
+      ],
+      overrides: { templates: ["Chapter {n:upper-roman}:", "{n:alpha})"] },
+      generated: [
+        { prefix: "1. ", text: "Intro" },
+        { prefix: "1.1 ", text: "Background" },
+      ],
+      expected: ["Chapter I: Intro", "a) Background"],
+    },
+    {
+      name: "levels",
+      headings: [
+        { level: 1, text: "Title" },
+        { level: 2, text: "Intro" },
+        { level: 3, text: "Background" },
+        { level: 4, text: "1. Details" },
+        { level: 1, text: "Appendix" },
+        { level: 2, text: "Notes" },
+      ],
+      overrides: { startLevel: 2, endLevel: 3 },
+      generated: [{ prefix: "1. ", text: "Details" }],
+      expected: ["Title", "1. Intro", "1.1 Background", "Details", "Appendix", "1. Notes"],
+    },
+    {
+      name: "excluded headings",
+      headings: [
+        { level: 1, text: "Intro" },
+        { level: 1, text: "2. References" },
+        { level: 1, text: "Changelog {-}" },
+        { level: 1, text: "Appendix {#appendix .unnumbered}" },
+        { level: 1, text: "Usage" },
+      ],
+      overrides: { exclude: ["references"] },
+      generated: [{ prefix: "2. ", text: "References" }],
+      expected: [
+        "1. Intro",
+        "References",
+        "Changelog {-}",
+        "Appendix {#appendix .unnumbered}",
+        "2. Usage",
+      ],
+    },
+  ])("Number headings: $name", ({ headings, overrides, generated, expected }, { expect }) => {
+    expect(apply(numberHeadings, headings, overrides, generated)).toEqual(expected);
+  });
+});
+
+describe("Remove numbering", () => {
+  test.concurrent.for([
+    {
+      name: "recorded numbering",
+      headings: [
+        { level: 1, text: "2. Intro" },
+        { level: 2, text: "1.1 2024 Goals" },
+        { level: 3, text: "a) Details" },
+      ],
+      generated: [
+        { prefix: "2. ", text: "Intro" },
+        { prefix: "1.1 ", text: "2024 Goals" },
+        { prefix: "a) ", text: "Details" },
+      ],
+      expected: ["Intro", "2024 Goals", "Details"],
+    },
+    {
+      name: "numbering not recorded",
+      headings: [
+        { level: 1, text: "1. Intro" },
+        { level: 2, text: "1.1 Background" },
+        { level: 2, text: "3.5 release notes" },
+        { level: 1, text: "2024 Goals" },
+      ],
+      generated: [],
+      expected: ["Intro", "Background", "3.5 release notes", "2024 Goals"],
+    },
+  ])("Remove numbering: $name", ({ headings, generated, expected }, { expect }) => {
+    expect(apply(removeNumbering, headings, {}, generated)).toEqual(expected);
+  });
+});
@@ -0,0 +1,78 @@
+import { MarkdownDocument } from "@/utils/markdown";
+import { findTocRange, renderToc } from "@/utils/toc";
+
+describe("Find TOC range", () => {
+  test.concurrent.for([
+    { text: "# A", expected: null },
+    { text: "<!-- toc -->\n- old\n<!-- tocstop -->", expected: ["\n- old\n", true] },
+    { text: "<!--TOC-->\n\n<!--  tocstop  -->", expected: ["\n\n", true] },
+    { text: "<!-- toc -->\n# A", expected: ["", false] },
+    { text: "```\n<!-- toc -->\n```\n<!-- toc -->\n<!-- tocstop -->", expected: ["\n", true] },
+    { text: "<!-- tocstop -->\n<!-- toc -->", expected: ["", false] },
+    { text: "~~~\n<!-- toc -->\n~~~\n<!-- toc -->\n\n<!-- tocstop -->", expected: ["\n\n", true] },
+    { text: "a <!-- toc --> b", expected: null },
+  ])("Find TOC range: $text", async ({ text, expected }, { expect }) => {
+    const range = findTocRange(await MarkdownDocument.parse(text));
+
+    expect(range && [text.slice(range.start, range.end), range.hasEnd]).toEqual(expected);
+  });
+});
+
+describe("Render TOC", () => {
+  test.concurrent.for([
+    {
+      name: "nested headings",
+      headings: [
+        { level: 1, text: "1. Intro" },
+        { level: 2, text: "1.1 Background" },
+        { level: 3, text: "1.1.1 History" },
+        { level: 1, text: "2. Usage ##" },
+      ],
+      options: { startLevel: 1, depth: 3 },
+      expected: [
+        "- [[#1. Intro|1. Intro]]",
+        "  - [[#1.1 Background|1.1 Background]]",
+        "    - [[#1.1.1 History|1.1.1 History]]",
+        "- [[#2. Usage|2. Usage]]",
+      ],
+    },
+    {
+      name: "depth",
+      headings: [
+        { level: 2, text: "Intro" },
+        { level: 3, text: "Background" },
+        { level: 4, text: "History" },
+      ],
+      options: { startLevel: 1, depth: 2 },
+      expected: ["- [[#Intro|Intro]]", "  - [[#Background|Background]]"],
+    },
+    {
+      name: "start level",
+      headings: [
+        { level: 1, text: "Title" },
+        { level: 2, text: "Intro" },
+        { level: 3, text: "Background" },
+      ],
+      options: { startLevel: 2, depth: 1 },
+      expected: ["- [[#Intro|Intro]]"],
+    },
+    {
+      name: "skipped levels",
+      headings: [
+        { level: 1, text: "Intro" },
+        { level: 3, text: "Details" },
+        { level: 2, text: "Usage" },
+      ],
+      options: { startLevel: 1, depth: 6 },
+      expected: ["- [[#Intro|Intro]]", "  - [[#Details|Details]]", "  - [[#Usage|Usage]]"],
+    },
+    {
+      name: "special characters",
+      headings: [{ level: 1, text: "Foo: [bar] | baz" }],
+      options: { startLevel: 1, depth: 1 },
+      expected: ["- [[#Foo bar baz|Foo: bar baz]]"],
+    },
+  ])("Render TOC: $name", ({ headings, options, expected }, { expect }) => {
+    expect(renderToc(headings, options)).toBe(expected.join("\n"));
+  });
+});
@@ -11,3 +11,11 @@ declare namespace NodeJS {
     readonly MANIFEST: Manifest;
   }
 }
+
+declare module "*.wasm" {
+  /**
+   * The content of the WebAssembly module, inlined by Rolldown.
+   */
+  const binary: Uint8Array<ArrayBuffer>;
+  export default binary;
+}
@@ -10,6 +10,19 @@ declare module "obsidian" {
     commands: Commands;
   }
 
+  interface Editor {
+    /**
+     * The underlying CodeMirror `EditorView`, only the fields in use are declared.
+     */
+    cm?: {
+      composing: boolean;
+    };
+  }
+
+  interface Vault {
+    on(name: "raw", callback: (path: string) => any, ctx?: any): EventRef;
+  }
+
   interface Plugin extends Component {
     app: App;
   }
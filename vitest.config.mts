@@ -1,3 +1,5 @@
+import fs from "node:fs";
+
 import tsconfigPaths from "vite-tsconfig-paths";
 import { defineConfig } from "vitest/config";
 
@@ -5,6 +7,26 @@ export default defineConfig({
   test: {
     globals: true,
     restoreMocks: true,
+    server: {
+      deps: {
+        // Transformed by Vite, so the WASM modules they import are loaded by the plugin below
+        inline: [/@jsquash/],
+      },
+    },
   },
-  plugins: [tsconfigPaths()],
+  plugins: [
+    tsconfigPaths(),
+    {
+      // Load WASM modules as bytes, like the `binary` module type of Rolldown does in the build
+      name: "wasm-binary",
+      enforce: "pre",
+      load(id) {
+        if (!id.endsWith(".wasm")) return;
+
+        const base64 = fs.readFileSync(id).toString("base64");
+
+        return `export default new Uint8Array(Buffer.from("${base64}", "base64"));`;
+      },
+    },
+  ],
 });